@@ -27,6 +27,16 @@ const routes: Array<RouteRecordRaw> = [
     name: 'dgrants-round-details',
     component: () => import('../views/GrantRoundGrants.vue'),
   },
+  {
+    path: '/dgrants/rounds/:address/claim',
+    name: 'dgrants-round-claim',
+    component: () => import('../views/GrantRoundClaim.vue'),
+  },
+  {
+    path: '/dgrants/rounds/:address/verify',
+    name: 'dgrants-round-verify',
+    component: () => import('../views/GrantRoundVerify.vue'),
+  },
   // Fallback route for handling 404s
   { path: '/:pathMatch(.*)*', name: '404', component: () => import('../views/Error404.vue') },
 ];
@@ -6,61 +6,36 @@
 
 // --- Imports ---
 import { computed, ref } from 'vue';
-import { Donation, Grant, SwapSummary, SwapSummaryUniV2 } from '@dgrants/types';
-import { CartItem, CartItemOptions, CartPrediction, CartPredictions } from 'src/types';
-import { SupportedChainId, SUPPORTED_TOKENS, SUPPORTED_TOKENS_MAPPING, WETH_ADDRESS } from 'src/utils/chains';
+import { Donation, Grant, GrantRound, SwapSummary, SwapSummaryUniV2 } from '@dgrants/types';
+import { TokenInfo } from '@uniswap/token-lists';
+import { CartItem, CartItemOptions, CartPrediction, CartPredictions, OptimizedCart } from 'src/types';
+import { SUPPORTED_TOKENS, SUPPORTED_TOKENS_MAPPING, WETH_ADDRESS } from 'src/utils/chains';
 import { ERC20_ABI, ETH_ADDRESS, WAD } from 'src/utils/constants';
-import { BigNumber, BigNumberish, BytesLike, Contract, ContractTransaction, formatUnits, getAddress, hexDataSlice, isAddress, MaxUint256, parseUnits } from 'src/utils/ethers'; // prettier-ignore
-import { assertSufficientBalance } from 'src/utils/utils';
+import { BigNumber, BigNumberish, Contract, ContractTransaction, formatUnits, getAddress, hexDataSlice, isAddress, MaxUint256, parseUnits } from 'src/utils/ethers'; // prettier-ignore
+import { assertSufficientBalance, isValidAmount } from 'src/utils/utils';
 import useDataStore from 'src/store/data';
 import useWalletStore from 'src/store/wallet';
-import { getPredictedMatchingForAmount } from '@dgrants/dcurve';
-import { getPredictionsForGrantInRound } from 'src/utils/data/grantRounds';
+import useSettingsStore from 'src/store/settings';
+import {
+  CLR,
+  getMatchingAlgorithmOptions,
+  getOptimalAllocation,
+  getPredictedMatchingForAmount,
+  InitArgs,
+} from '@dgrants/dcurve';
+import { filterEligibleRounds, getPredictionsForGrantInRound } from 'src/utils/data/grantRounds';
+import { findBestRoute, getAmountOutMin, SwapRoute } from 'src/utils/swaps';
 
 // --- Constants and helpers ---
 const CART_KEY = 'cart';
 const DEFAULT_CONTRIBUTION_AMOUNT = 5; // this is converted to a parsed BigNumber at checkout
 const EMPTY_CART: CartItemOptions[] = []; // and empty cart is identified by an empty array
-// Hardcoded swap paths based on a input token and swapping to DAI, based on most liquid pairs: https://info.uniswap.org/#/
-// TODO replace with more robust swap path logic
-const MAINNET_SWAP_PATHS = {
-  // ETH to DAI through the 0.3% pool
-  '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE': '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000bb86b175474e89094c44da98b954eedeac495271d0f', // prettier-ignore
-  // USDC to DAI through the 0.05% pool
-  '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb480001f46b175474e89094c44da98b954eedeac495271d0f', // prettier-ignore
-  // GTC to ETH through 1% pool, ETH to DAI through 0.3% pool
-  '0xDe30da39c46104798bB5aA3fe8B9e0e1F348163F': '0xde30da39c46104798bb5aa3fe8b9e0e1f348163f002710c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000bb86b175474e89094c44da98b954eedeac495271d0f', // prettier-ignore
-  // UNI to ETH through 0.3% pool, ETH to DAI through 0.3% pool
-  '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984': '0x1f9840a85d5af5bf1d1762f925bdaddc4201f984000bb8c02aaa39b223fe8d0a0e5c4f27ead9083c756cc2000bb86b175474e89094c44da98b954eedeac495271d0f', // prettier-ignore
-  // DAI "swap path" is just its token address for our router
-  '0x6B175474E89094C44Da98b954EedeAC495271d0F': '0x6B175474E89094C44Da98b954EedeAC495271d0F'.toLowerCase(),
-};
-const SWAP_PATHS = {
-  [SupportedChainId.MAINNET]: MAINNET_SWAP_PATHS,
-  [SupportedChainId.HARDHAT]: MAINNET_SWAP_PATHS,
-  [SupportedChainId.RINKEBY]: {
-    // ETH to DAI through the 0.3% pool
-    '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE': '0xc778417e063141139fce010982780140aa0cd5ab000bb85592ec0cfb4dbc12d3ab100b257153436a1f0fea', // prettier-ignore
-    // DAI "swap path" is just its token address for our router
-    '0x5592EC0cfb4dbc12D3aB100b257153436a1f0FEa': '0x5592EC0cfb4dbc12D3aB100b257153436a1f0FEa'.toLowerCase(),
-  },
-  [SupportedChainId.POLYGON]: {
-    // Unlike the Uniswap V3 swap paths, these Uniswap V2 (SushiSwap) paths are just arrays of token addresses
-    // ETH to DAI through the ETH/DAI pool
-    '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE': ['0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063'], // prettier-ignore
-    // USDC to DAI through the USDC/DAI pool
-    '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174': ['0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063'], // prettier-ignore
-    // USDT to DAI through the USDT/ETH and ETH/DAI pools
-    '0xc2132D05D31c914a87C6611C10748AEb04B58e8F': ['0xc2132D05D31c914a87C6611C10748AEb04B58e8F','0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063'], // prettier-ignore
-    // WBTC to DAI through the WBTC/ETH and ETH/DAI pools
-    '0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6': ['0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6','0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063'], // prettier-ignore
-    // DAI "swap path" is just its token address based on GrantRoundManager contract config
-    '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063': ['0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063'],
-  },
-};
-
-const { grants, grantRounds, grantRoundsCLRData, grantRoundMetadata } = useDataStore();
-const { chainId } = useWalletStore();
+const PRICE_IMPACT_WARNING = 2; // percent price impact from which a swap is flagged in the cart
+const PRICE_IMPACT_LIMIT = 10; // percent price impact from which checkout is blocked
+const OPTIMIZED_CART_MINIMUM_SHARE = 0.01; // share of the budget every item gets when optimizing the cart
+
+const { grants, grantRounds, grantRoundsCLRData, grantRoundMetadata, trustBonus } = useDataStore();
+const { slippageTolerance, transactionDeadline } = useSettingsStore();
 const toHex = (val: BigNumberish) => BigNumber.from(val).toHexString();
 
 // --- State ---
@@ -68,6 +43,11 @@ const lsCart = ref<CartItemOptions[]>([]); // localStorage cart
 const cart = ref<CartItem[]>([]); // source of truth for what's in the user's cart
 const quotes = ref<Record<string, number>>({}); // mapping from token address to DAI exchange rate, i.e. multiple token quantity by the exchange rate to get the value in DAI
 const cartStatus = ref<string>('');
+const swapRoutes = ref<Record<string, SwapRoute>>({}); // mapping from token address to the route its cart total swaps through
+const swapRoutesRequest = ref(0); // counts fetchSwapRoutes calls, so that only the latest call's routes are kept
+const jointPredictions = ref<{ key: string; predictions: CartPredictions }>(); // matching predicted for the whole cart at once, with the cart/wallet it was predicted for
+const jointPredictionsRequest = ref(0); // counts fetchJointPredictions calls, so that only the latest call's predictions are kept
+const roundCLRs: Record<string, { matchingAlgorithm: string; clr: CLR }> = {}; // CLR used to predict each round, kept so its prepared state is reused while the cart changes
 
 // --- Composition function for state management ---
 export default function useCartStore() {
@@ -127,12 +107,12 @@ export default function useCartStore() {
     const _lsCart: CartItemOptions[] = [];
     const _cart: CartItem[] = [];
     newCart.forEach((item: CartItemOptions | CartItem) => {
-      const { grantId, contributionAmount } = item;
+      const { grantId, contributionAmount, rounds } = item;
       const grant = grants.value?.filter((grant) => grant.id === grantId)[0] as Grant; // TODO may be slow for large numbers of grants
       const tokenAddr = 'contributionToken' in item ? item.contributionToken.address : item.contributionTokenAddress;
       const token = SUPPORTED_TOKENS_MAPPING[tokenAddr];
-      _lsCart.push({ grantId, contributionTokenAddress: token.address, contributionAmount });
-      _cart.push({ ...grant, grantId, contributionAmount, contributionToken: token });
+      _lsCart.push({ grantId, contributionTokenAddress: token.address, contributionAmount, rounds });
+      _cart.push({ ...grant, grantId, contributionAmount, contributionToken: token, rounds });
     });
 
     // Save off the cart
@@ -142,17 +122,25 @@ export default function useCartStore() {
   }
 
   /**
-   * @notice Updates the amount or token of an item in the cart
+   * @notice Updates the amount, token or rounds of an item in the cart
    * @dev Used to keep localStorage in sync with store when the `cart` ref is modified directly via v-model in Cart.vue
    * @dev NOTE: You MUST call this when directly modifying the `cart` ref via v-model
    * @param grantId Grant ID to update
-   * @param data A token address to update the token, or a human-readable number to update the amount
+   * @param data A token address to update the token, a human-readable number to update the amount, or an array of
+   * round addresses to update the rounds the donation counts towards
    */
-  function updateCart(grantId: number, data: string | number) {
+  function updateCart(grantId: number, data: string | number | string[]) {
     // Get index of the grant to replace
     const _lsCart = lsCart.value;
     const index = _lsCart.findIndex((item) => item.grantId === grantId);
 
+    // Handle rounds update
+    if (Array.isArray(data)) {
+      _lsCart[index] = { ..._lsCart[index], rounds: data.map((address) => getAddress(address)) };
+      setCart(_lsCart);
+      return;
+    }
+
     // Handle token address update (type check is because if `data` is a decimal number `toHex` would fail)
     if (typeof data !== 'number' && isAddress(toHex(data))) {
       _lsCart[index] = { ..._lsCart[index], contributionTokenAddress: toHex(data) };
@@ -277,14 +265,19 @@ export default function useCartStore() {
     donations: Donation[];
     deadline: number;
   }> {
-    // Get the swaps array
+    // Get the swaps array, using the best route from each token into the donationToken
+    const donationToken = await getDonationToken();
     const swapPromises = Object.keys(cartSummary.value).map(async (tokenAddress) => {
       const decimals = SUPPORTED_TOKENS_MAPPING[tokenAddress].decimals;
       const amountIn = parseUnits(String(cartSummary.value[tokenAddress]), decimals);
-      const path = swapPaths.value[tokenAddress as keyof typeof swapPaths.value];
-      // Use Uniswap's Quoter.sol to get amountOutMin, unless the path indicates so swap is required
-      const isSwapRequired = Array.isArray(path) ? path.length === 1 : path.length === 42;
-      const amountOutMin = isSwapRequired ? amountIn : await quoteExactInput(path, amountIn);
+      const { path, tokens, amountOut, priceImpact } = await findBestRoute(tokenAddress, donationToken, amountIn);
+      if (priceImpact >= PRICE_IMPACT_LIMIT) {
+        const symbol = SUPPORTED_TOKENS_MAPPING[tokenAddress].symbol;
+        throw new Error(`Swapping ${symbol} has a price impact of ${priceImpact}%, try donating a smaller amount`);
+      }
+      // Allow for slippage on the quoted output, unless the route indicates no swap is required
+      const isSwapRequired = tokens.length > 1;
+      const amountOutMin = isSwapRequired ? getAmountOutMin(amountOut, slippageTolerance.value) : amountIn;
       return { amountIn, amountOutMin, path };
     });
     const swaps = <SwapSummary[] | SwapSummaryUniV2[]>await Promise.all(swapPromises);
@@ -295,7 +288,7 @@ export default function useCartStore() {
       const { grantId, contributionAmount, contributionToken } = item;
       const isEth = contributionToken.address === ETH_ADDRESS;
       const tokenAddress = getAddress(isEth ? WETH_ADDRESS : contributionToken.address);
-      const rounds = grantRounds.value ? [grantRounds.value[0].address] : []; // TODO we're hardcoding the first round for now
+      const rounds = getSelectedRounds(item).map((round) => round.address);
       const decimals = isEth ? 18 : SUPPORTED_TOKENS_MAPPING[tokenAddress].decimals;
       const donationAmount = parseUnits(String(contributionAmount), decimals);
 
@@ -310,10 +303,10 @@ export default function useCartStore() {
       return { grantId, token: tokenAddress, ratio, rounds };
     });
 
-    // Return all inputs needed for checkout, using a deadline 20 minutes from now
+    // Return all inputs needed for checkout, using the deadline from the user's settings
     const now = new Date().getTime();
-    const nowPlus20Minutes = new Date(now + 20 * 60 * 1000).getTime();
-    return { swaps, donations: fixDonationRoundingErrors(donations), deadline: Math.floor(nowPlus20Minutes / 1000) };
+    const deadline = new Date(now + transactionDeadline.value * 60 * 1000).getTime();
+    return { swaps, donations: fixDonationRoundingErrors(donations), deadline: Math.floor(deadline / 1000) };
   }
 
   /**
@@ -323,19 +316,118 @@ export default function useCartStore() {
    * the Uniswap pools have sufficient liquid for all supported tokens
    */
   async function fetchQuotes() {
-    // TODO use multicall for better performance + fewer RPC requests
+    const donationToken = await getDonationToken();
     const _quotes = await Promise.all(
       SUPPORTED_TOKENS.map(async (token) => {
         if (token.symbol === 'DAI' || token.symbol === 'USDC') return { token, rate: 1 };
-        const path = swapPaths.value[token.address as keyof typeof swapPaths.value];
         const amountIn = parseUnits('1', token.decimals); // for simplicity, use a value of 1 token for getting quotes
-        const amountOut = await quoteExactInput(path, amountIn); // as raw BigNumber
+        const { amountOut } = await findBestRoute(token.address, donationToken, amountIn); // as raw BigNumber
         return { token, rate: Number(formatUnits(amountOut, token.decimals)) };
       })
     );
     _quotes.forEach((quote) => (quotes.value[quote.token.address] = quote.rate));
   }
 
+  /**
+   * @notice Finds the swap route for each token total in the cart, so their price impact can be shown before checkout
+   * @dev Run this whenever the cart's totals change. Routes are found again at checkout, this is only an estimate
+   */
+  async function fetchSwapRoutes() {
+    const request = ++swapRoutesRequest.value;
+    const donationToken = await getDonationToken();
+    const _swapRoutes: Record<string, SwapRoute> = {};
+    await Promise.all(
+      Object.keys(cartSummary.value).map(async (tokenAddress) => {
+        const { decimals, symbol } = SUPPORTED_TOKENS_MAPPING[tokenAddress];
+        if (!isValidAmount(cartSummary.value[tokenAddress])) return;
+        try {
+          const amountIn = parseUnits(String(cartSummary.value[tokenAddress]), decimals);
+          _swapRoutes[tokenAddress] = await findBestRoute(tokenAddress, donationToken, amountIn);
+        } catch (e) {
+          console.warn(`Could not find a swap route for ${symbol}`);
+        }
+      })
+    );
+    // drop the routes if the cart's totals changed while they were being found
+    if (request === swapRoutesRequest.value) swapRoutes.value = _swapRoutes;
+  }
+
+  /**
+   * @notice Predicts the matching for the whole cart at once with dcurve
+   * @dev Every item is added to the rounds it was picked for together, as contributions from the connected wallet
+   * (anonymous when no wallet is connected), so the prediction accounts for the wallet's trust bonus score, what it
+   * has already contributed and the items competing for the same pot. Run this whenever the cart, the wallet or the
+   * rounds' data changes. Until it resolves for the current cart (or while the trust bonus scores are still loading),
+   * `clrPredictions` falls back to the per-item estimates
+   */
+  async function fetchJointPredictions() {
+    const { userAddress } = useWalletStore();
+    const request = ++jointPredictionsRequest.value;
+    const key = getJointPredictionsKey();
+
+    // predict with the scores the rounds were loaded with, never with whatever a missing score defaults to
+    if (!Object.keys(trustBonus.value).length) return;
+
+    // scores are to be presented in an array
+    const trustBonusScores = Object.keys(trustBonus.value).map((address) => ({
+      address: address,
+      score: trustBonus.value[address],
+    }));
+
+    const _predictions: CartPredictions = {};
+    await Promise.all(
+      (grantRounds.value || []).map(async (round) => {
+        const grantRoundContributions = grantRoundsCLRData.value[round.address];
+        const items = cart.value.filter((item) =>
+          getSelectedRounds(item).some((selected) => selected.address === round.address)
+        );
+        if (!grantRoundContributions || !items.length) return;
+
+        const prediction = await getRoundCLR(round).predictJoint({
+          contributor: userAddress.value,
+          contributions: items.map((item) => ({
+            grantId: item.grantId,
+            amount: getRoundTokenAmount(round, item.contributionToken, item.contributionAmount),
+          })),
+          grantRoundContributions: grantRoundContributions,
+          trustBonusScores: trustBonusScores,
+        });
+
+        prediction.predictions.forEach(({ grantId, predictionDiff }) => {
+          _predictions[grantId] = _predictions[grantId] || [];
+          _predictions[grantId].push({
+            grantRound: round.address,
+            matching: predictionDiff,
+            matchingToken: round.matchingToken,
+          });
+        });
+      })
+    );
+
+    // drop the result if the cart changed or a newer prediction started while it was being calculated
+    if (request === jointPredictionsRequest.value && key === getJointPredictionsKey()) {
+      jointPredictions.value = { key, predictions: _predictions };
+    }
+  }
+
+  /**
+   * @notice Returns the CLR to predict a round with, configured with the round's algorithm (and params)
+   * @dev The same CLR is returned while the round's algorithm is unchanged, so predictions reuse its prepared state
+   * @param round GrantRound to predict
+   */
+  function getRoundCLR(round: GrantRound) {
+    const matchingAlgorithm = grantRoundMetadata.value[round.metaPtr]?.matchingAlgorithm;
+    const key = JSON.stringify(matchingAlgorithm || null);
+    if (roundCLRs[round.address]?.matchingAlgorithm !== key) {
+      roundCLRs[round.address] = {
+        matchingAlgorithm: key,
+        clr: new CLR({ ...getMatchingAlgorithmOptions(matchingAlgorithm), includePayouts: false } as InitArgs),
+      };
+    }
+
+    return roundCLRs[round.address].clr;
+  }
+
   // --- Getters ---
   /**
    * @notice Returns true if the provided grantId is in the cart, false otherwise
@@ -346,6 +438,123 @@ export default function useCartStore() {
     return grantIds.includes(grantId);
   }
 
+  /**
+   * @notice Returns the active rounds which the grant is a member of (these are the only rounds a donation can count
+   * towards)
+   * @param grantId Grant ID to find the rounds for
+   */
+  function getEligibleRounds(grantId: number): GrantRound[] {
+    return filterEligibleRounds(grantId, grantRounds.value || [], grantRoundMetadata.value);
+  }
+
+  /**
+   * @notice Returns the eligible rounds the donor picked for a cart item (all of them if they haven't picked)
+   * @param item Cart item to find the rounds for
+   */
+  function getSelectedRounds(item: CartItem | CartItemOptions): GrantRound[] {
+    const eligibleRounds = getEligibleRounds(item.grantId);
+    if (!item.rounds) return eligibleRounds;
+
+    const selected = item.rounds.map((address) => getAddress(address));
+    return eligibleRounds.filter((round) => selected.includes(getAddress(round.address)));
+  }
+
+  /**
+   * @notice Returns the predicted match for a contribution to a grant in a round
+   * @param grantId Grant ID the contribution is for
+   * @param round Round to predict the match in
+   * @param token The token the contribution is made in
+   * @param contributionAmount Human-readable amount of `token`
+   */
+  function getPredictedMatch(grantId: number, round: GrantRound, token: TokenInfo, contributionAmount: number) {
+    // get the predictions for this grant in this round
+    const clrPredictions = getPredictionsForGrantInRound(grantId, grantRoundsCLRData.value[round.address]);
+
+    return getPredictedMatchingForAmount(
+      clrPredictions,
+      getRoundTokenAmount(round, token, contributionAmount) // pass in the donationToken denominated amount
+    );
+  }
+
+  /**
+   * @notice Converts a contribution into the rounds donationToken, which all matching calculations are denominated in
+   * @param round Round the contribution counts towards
+   * @param token The token the contribution is made in
+   * @param contributionAmount Human-readable amount of `token`
+   */
+  function getRoundTokenAmount(round: GrantRound, token: TokenInfo, contributionAmount: number) {
+    const roundToken = round.donationToken;
+    // no conversion is required if tokens are in the same currency
+    const contributionIsRoundToken = token.address == roundToken.address;
+    // if contribution/donationToken token is DAI we can skip that step of the conversion
+    const contributionIsDai = token.symbol === 'DAI';
+    const roundTokenIsDai = roundToken.symbol === 'DAI';
+    // take the initial contributionAmount and convert it to be denominated in donationToken
+    let amount = contributionAmount;
+    // convert amount to the donationToken (double hop to get into dai then into the donationToken)
+    amount = contributionIsDai || contributionIsRoundToken ? amount : getConvertedAmount(amount, token.address, 1);
+    amount = roundTokenIsDai || contributionIsRoundToken ? amount : getConvertedAmount(amount, roundToken.address, -1);
+
+    return amount;
+  }
+
+  /**
+   * @notice Identifies the cart and wallet a joint prediction is made for
+   */
+  function getJointPredictionsKey() {
+    const { userAddress } = useWalletStore();
+    return JSON.stringify([lsCart.value, userAddress.value]);
+  }
+
+  /**
+   * @notice Splits a budget between the items in the cart to get the most predicted matching out of it
+   * @dev Each item keeps its token, the amounts are converted from DAI with the current quotes. Matching in different
+   * tokens is compared by its value in DAI (or as is when there is no quote for the matching token). Every item is
+   * given a small share so that none of them are left with an invalid amount
+   * @param budget Human-readable amount of DAI to split
+   * @returns The amount for each item and the total predicted matching before and after (valued in DAI)
+   */
+  function getOptimizedCart(budget: number): OptimizedCart {
+    // convert between DAI and the items token
+    const toDai = (item: CartItem, amount: number) =>
+      item.contributionToken.symbol === 'DAI' ? amount : getConvertedAmount(amount, item.contributionToken.address, 1);
+    const fromDai = (item: CartItem, daiAmount: number) =>
+      item.contributionToken.symbol === 'DAI'
+        ? daiAmount
+        : getConvertedAmount(daiAmount, item.contributionToken.address, -1);
+
+    // total value of the matching an item gets from an amount of DAI across its selected rounds
+    const getMatchValue = (item: CartItem, daiAmount: number) => {
+      const token = item.contributionToken;
+      const amount = fromDai(item, daiAmount);
+      return getSelectedRounds(item).reduce((total, round) => {
+        const match = getPredictedMatch(item.grantId, round, token, amount);
+        const matchingToken = getAddress(round.matchingToken.address);
+        return total + (quotes.value[matchingToken] ? getConvertedAmount(match, matchingToken, 1) : match);
+      }, 0);
+    };
+
+    const items = cart.value;
+    const minimum = budget * OPTIMIZED_CART_MINIMUM_SHARE;
+    const allocation = getOptimalAllocation(
+      budget,
+      items.map((item) => (daiAmount: number) => getMatchValue(item, daiAmount)),
+      minimum
+    );
+
+    return {
+      items: items.map((item, index) => {
+        const decimals = Math.min(item.contributionToken.decimals, 4);
+        return {
+          grantId: item.grantId,
+          contributionAmount: Number(fromDai(item, allocation[index]).toFixed(decimals)),
+        };
+      }),
+      match: items.reduce((total, item, index) => total + getMatchValue(item, allocation[index]), 0),
+      currentMatch: items.reduce((total, item) => total + getMatchValue(item, toDai(item, item.contributionAmount)), 0),
+    };
+  }
+
   /**
    * @notice Convert a cart into an array of objects summarizing the cart info, with human-readable values
    * @returns Object where keys are token addresses, values are total amount of that token in cart
@@ -373,60 +582,42 @@ export default function useCartStore() {
   });
 
   /**
-   * @notice Returns list of valid swap paths for the specified chainId
+   * @notice Active rounds each grant in the cart could count towards
    */
-  const swapPaths = computed(() => SWAP_PATHS[chainId.value]);
+  const cartEligibleRounds = computed<Record<number, GrantRound[]>>(() => {
+    const _rounds: Record<number, GrantRound[]> = {};
+    cart.value.forEach((item) => (_rounds[item.grantId] = getEligibleRounds(item.grantId)));
+
+    return _rounds;
+  });
 
   /**
-   * @notice Is any of the cart content in a round
+   * @notice Is any of the cart content counting towards a round
    */
   const cartInRound = computed<boolean>(() => {
-    return cart.value
-      .map((item) =>
-        (grantRounds.value || []).reduce((inRound: boolean, round) => {
-          return inRound || grantRoundMetadata.value[round.metaPtr].grants?.includes(item.grantId) || false;
-        }, false)
-      )
-      .reduce((inRound, isInRound) => inRound || isInRound, false);
+    return cart.value.some((item) => getSelectedRounds(item).length > 0);
   });
 
   /**
-   * @notice Returns all clr matching for each grant and each round
+   * @notice Returns the clr matching estimated for each grant on its own in each of its eligible rounds (matching is
+   * false for the rounds the donor didn't pick)
    */
-  const clrPredictions = computed<CartPredictions>(() => {
+  const itemClrPredictions = computed<CartPredictions>(() => {
     const _predictions: CartPredictions = {};
     cart.value.forEach((item) => {
       // the original token the contribution was made in
       const token = item.contributionToken;
+      // the rounds this contribution will count towards
+      const selectedRounds = getSelectedRounds(item).map((round) => round.address);
       // collect the matching values for each grant in each round
-      _predictions[item.grantId] = (grantRounds.value || []).map((round) => {
+      _predictions[item.grantId] = getEligibleRounds(item.grantId).map((round) => {
         let matching: number | boolean = false;
-        const metadata = grantRoundMetadata.value[round.metaPtr];
-        if (metadata && metadata.grants?.includes(item.grantId)) {
-          // all calculations are denominated in the rounds donationToken
-          const roundToken = round.donationToken;
-          // get the predictions for this grant in this round
-          const clrPredictions = getPredictionsForGrantInRound(item.grantId, grantRoundsCLRData.value[round.address]);
-          // no conversion is required if tokens are in the same currency
-          const contributionIsRoundToken = token.address == roundToken.address;
-          // if contribution/donationToken token is DAI we can skip that step of the conversion
-          const contributionIsDai = token.symbol === 'DAI';
-          const roundTokenIsDai = roundToken.symbol === 'DAI';
-          // take the initial contributionAmount and convert it to be denominated in donationToken
-          let amount = item.contributionAmount;
-          // convert amount to the donationToken (double hop to get into dai then into the donationToken)
-          amount =
-            contributionIsDai || contributionIsRoundToken ? amount : getConvertedAmount(amount, token.address, 1);
-          amount =
-            roundTokenIsDai || contributionIsRoundToken ? amount : getConvertedAmount(amount, roundToken.address, -1);
-
-          matching = getPredictedMatchingForAmount(
-            clrPredictions,
-            amount // pass in the donationToken denominated amount
-          );
+        if (selectedRounds.includes(round.address)) {
+          matching = getPredictedMatch(item.grantId, round, token, item.contributionAmount);
         }
 
         return {
+          grantRound: round.address,
           matching: matching,
           matchingToken: round.matchingToken,
         };
@@ -436,6 +627,32 @@ export default function useCartStore() {
     return _predictions;
   });
 
+  /**
+   * @notice Whether `clrPredictions` holds the joint prediction for the current cart
+   */
+  const isJointPrediction = computed<boolean>(() => jointPredictions.value?.key === getJointPredictionsKey());
+
+  /**
+   * @notice Returns all clr matching for each grant in each of its eligible rounds (matching is false for the rounds
+   * the donor didn't pick). The joint prediction is used once it has been fetched for the current cart
+   */
+  const clrPredictions = computed<CartPredictions>(() => {
+    if (!jointPredictions.value || !isJointPrediction.value) return itemClrPredictions.value;
+
+    const _joint = jointPredictions.value.predictions;
+    const _predictions: CartPredictions = {};
+    Object.keys(itemClrPredictions.value).forEach((grantId) => {
+      _predictions[Number(grantId)] = itemClrPredictions.value[Number(grantId)].map((prediction) => {
+        if (prediction.matching === false) return prediction;
+        const joint = _joint[Number(grantId)]?.find((entry) => entry.grantRound === prediction.grantRound);
+        // items without a valid amount aren't part of the joint prediction
+        return { ...prediction, matching: joint ? joint.matching : 0 };
+      });
+    });
+
+    return _predictions;
+  });
+
   /**
    * @notice sum of clrPredictions for grants in the cart (summed by token)
    */
@@ -458,6 +675,22 @@ export default function useCartStore() {
     return _predictionTotals;
   });
 
+  /**
+   * @notice Swaps in the cart with a price impact worth flagging, keyed by token address
+   * @dev `isBlocked` swaps would be refused at checkout
+   */
+  const priceImpactWarnings = computed<Record<string, { priceImpact: number; isBlocked: boolean }>>(() => {
+    const warnings: Record<string, { priceImpact: number; isBlocked: boolean }> = {};
+    Object.keys(swapRoutes.value).forEach((tokenAddress) => {
+      const { priceImpact } = swapRoutes.value[tokenAddress];
+      if (tokenAddress in cartSummary.value && priceImpact >= PRICE_IMPACT_WARNING) {
+        warnings[tokenAddress] = { priceImpact, isBlocked: priceImpact >= PRICE_IMPACT_LIMIT };
+      }
+    });
+
+    return warnings;
+  });
+
   // Only export additional items as they are needed outside the store
   return {
     // Store
@@ -468,24 +701,30 @@ export default function useCartStore() {
     lsCart,
     quotes: computed(() => quotes.value),
     // Getters
+    cartEligibleRounds: computed(() => cartEligibleRounds.value),
     cartInRound: computed(() => cartInRound.value),
     cartItemsCount: computed(() => cart.value.length),
     cartSummary: computed(() => cartSummary.value),
     cartSummaryString: computed(() => cartSummaryString.value),
     clrPredictions: computed(() => clrPredictions.value),
     clrPredictionsByToken: computed(() => clrPredictionsByToken.value),
+    isJointPrediction: computed(() => isJointPrediction.value),
+    priceImpactWarnings: computed(() => priceImpactWarnings.value),
     // Actions / Mutations
     addToCart,
     checkout,
     clearCart,
     clearCartState,
     fetchQuotes,
+    fetchJointPredictions,
+    fetchSwapRoutes,
     initializeCart,
     isInCart,
     removeFromCart,
     setCart,
     updateCart,
     getConvertedAmount,
+    getOptimizedCart,
   };
 }
 
@@ -528,24 +767,10 @@ function fixDonationRoundingErrors(donations: Donation[]) {
 }
 
 /**
- * @notice Returns the amountOutMin expected for a given trade assuming 0.5% slippage
- * @param path Swap path
- * @param amountIn Swap input amount, as a full integer
+ * @notice Returns the GrantRoundManager's donationToken, which every donation is swapped into
+ * @returns Checksummed donationToken address
  */
-async function quoteExactInput(path: BytesLike | string[], amountIn: BigNumberish): Promise<BigNumber> {
-  const { provider } = useWalletStore();
-  let amountOut: BigNumber;
-  if (Array.isArray(path)) {
-    // Polygon mainnet, Uniswap V2 format
-    const abi = ['function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)']; // prettier-ignore
-    const router = new Contract('0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', abi, provider.value); // TODO hardcoded Polygon mainnet SushiSwap address
-    const amountsOut = await router.getAmountsOut(amountIn, path);
-    amountOut = amountsOut[amountsOut.length - 1];
-  } else {
-    // L1 mainnet, Uniswap V3 format
-    const abi = ['function quoteExactInput(bytes memory path, uint256 amountIn) external view returns (uint256 amountOut)']; // prettier-ignore
-    const quoter = new Contract('0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6', abi, provider.value); // TODO hardcoded L1 mainnet Uniswap V3 address
-    amountOut = await quoter.quoteExactInput(path, amountIn);
-  }
-  return amountOut.mul(995).div(1000); // multiplying by 995/1000 is equivalent to 0.5% slippage
+async function getDonationToken(): Promise<string> {
+  const { grantRoundManager } = useWalletStore();
+  return getAddress(await grantRoundManager.value.donationToken());
 }
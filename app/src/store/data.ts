@@ -16,6 +16,7 @@ import {
   getGrantRoundGrantData,
   GrantRoundCreatedListener,
 } from 'src/utils/data/grantRounds';
+import { claimedListener, getGrantRoundPayout } from 'src/utils/data/payouts';
 import {
   Grant,
   Contribution,
@@ -23,6 +24,7 @@ import {
   GrantRoundCLR,
   GrantMetadataResolution,
   GrantRoundMetadataResolution,
+  GrantRoundPayout,
 } from '@dgrants/types';
 import { fetchMetaPtrs } from 'src/utils/data/ipfs';
 import { TokenInfo } from '@uniswap/token-lists';
@@ -43,7 +45,9 @@ const grantMetadata = ref<Record<string, GrantMetadataResolution>>({});
 const grantRounds = ref<GrantRound[]>();
 const grantRoundMetadata = ref<Record<string, GrantRoundMetadataResolution>>({});
 const grantRoundsCLRData = ref<Record<string, GrantRoundCLR>>({});
+const trustBonus = ref<Record<string, number>>({}); // mapping from contributor address to trust bonus score
 const grantRoundsDonationToken = ref<TokenInfo>();
+const grantRoundPayouts = ref<Record<string, GrantRoundPayout>>({});
 
 const timeout = ref<ReturnType<typeof setTimeout> | undefined>();
 
@@ -124,6 +128,7 @@ export default function useDataStore() {
     // Pull all trust scores from gitcoin api (depends on the contributions from getContributions)
     const trustBonusScores =
       (await getTrustBonusScores(lastBlockNumber.value, contributions || [], forceRefresh))?.trustBonus || {};
+    trustBonus.value = trustBonusScores;
 
     // Set up a watch so that we only update calculations when every rounds metadata is present
     watch(
@@ -167,6 +172,37 @@ export default function useDataStore() {
       { immediate: true }
     );
 
+    // Index the claims against each rounds payout once its metadata points at a MerkleGrantRoundPayout
+    const trackedPayouts: Record<string, string> = {};
+    grantRoundPayouts.value = {};
+    watch(
+      () => [grantRoundMetadata.value],
+      async () => {
+        await Promise.all(
+          grantRoundsList.map(async (grantRound: GrantRound) => {
+            const payout = grantRoundMetadata.value[grantRound.metaPtr]?.payout;
+            // skip rounds without a payout and payouts we are already tracking
+            if (!payout || trackedPayouts[grantRound.address] === payout.address) return;
+            trackedPayouts[grantRound.address] = payout.address;
+            try {
+              grantRoundPayouts.value[grantRound.address] = await getGrantRoundPayout(
+                lastBlockNumber.value,
+                grantRound,
+                payout,
+                forceRefresh
+              );
+              listeners.value.push(claimedListener({ grantRound, payout }, { grantRoundPayouts }));
+            } catch (e) {
+              // try again when the metadata next changes
+              delete trackedPayouts[grantRound.address];
+              console.log(`dGrants: Unable to index the payout of ${grantRound.address} (${(e as Error).message})`);
+            }
+          })
+        );
+      },
+      { immediate: true }
+    );
+
     // Save off data
     grants.value = grantsList as Grant[];
     grantContributions.value = contributions as Contribution[];
@@ -273,5 +309,7 @@ export default function useDataStore() {
     grantRoundsCLRData: computed(() => grantRoundsCLRData.value),
     grantRoundMetadata: computed(() => grantRoundMetadata.value),
     grantRoundsDonationToken: computed(() => grantRoundsDonationToken.value),
+    grantRoundPayouts: computed(() => grantRoundPayouts.value),
+    trustBonus: computed(() => trustBonus.value),
   };
 }
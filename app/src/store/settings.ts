@@ -7,30 +7,71 @@ import { computed, ref } from 'vue';
 // Local storage key names
 const settings = {
   lastWallet: 'last-wallet',
+  slippageTolerance: 'slippage-tolerance',
+  transactionDeadline: 'transaction-deadline',
 };
 
+// Defaults used until the user changes them
+const DEFAULT_SLIPPAGE_TOLERANCE = 0.5; // percent
+const DEFAULT_TRANSACTION_DEADLINE = 20; // minutes
+
 // Helper methods to load save items from local storage
 const load = (key: string) => window.localStorage.getItem(key);
 const save = (key: string, value: any) => window.localStorage.setItem(key, value); // eslint-disable-line @typescript-eslint/no-explicit-any
 
 // Shared state
 const lastWallet = ref<string>(); // name of last wallet used
+const slippageTolerance = ref<number>(DEFAULT_SLIPPAGE_TOLERANCE); // max percent a swap's output can fall below its quote
+const transactionDeadline = ref<number>(DEFAULT_TRANSACTION_DEADLINE); // minutes a checkout has to be mined in
 
 // Composition function for managing state
 export default function useSettingsStore() {
   async function initializeSettings() {
     // Load settings
     lastWallet.value = load(settings.lastWallet) ? String(load(settings.lastWallet)) : undefined;
+    slippageTolerance.value = isValidSlippageTolerance(Number(load(settings.slippageTolerance)))
+      ? Number(load(settings.slippageTolerance))
+      : DEFAULT_SLIPPAGE_TOLERANCE;
+    transactionDeadline.value = isValidTransactionDeadline(Number(load(settings.transactionDeadline)))
+      ? Number(load(settings.transactionDeadline))
+      : DEFAULT_TRANSACTION_DEADLINE;
   }
 
   function setLastWallet(walletName: string) {
     save(settings.lastWallet, walletName);
   }
 
+  function setSlippageTolerance(percent: number) {
+    if (!isValidSlippageTolerance(percent)) return;
+    slippageTolerance.value = percent;
+    save(settings.slippageTolerance, percent);
+  }
+
+  function setTransactionDeadline(minutes: number) {
+    if (!isValidTransactionDeadline(minutes)) return;
+    transactionDeadline.value = minutes;
+    save(settings.transactionDeadline, minutes);
+  }
+
   return {
     initializeSettings,
     // Wallet
     setLastWallet,
     lastWallet: computed(() => lastWallet.value),
+    // Checkout
+    setSlippageTolerance,
+    setTransactionDeadline,
+    slippageTolerance: computed(() => slippageTolerance.value),
+    transactionDeadline: computed(() => transactionDeadline.value),
   };
 }
+
+// Returns true if the provided slippage tolerance is valid (from 50% up a swap would accept almost any output)
+export function isValidSlippageTolerance(percent: number) {
+  return percent > 0 && percent < 50;
+}
+
+// Returns true if the provided transaction deadline is valid (whole minutes, up to a day)
+export function isValidTransactionDeadline(minutes: number) {
+  return Number.isInteger(minutes) && minutes > 0 && minutes <= 24 * 60;
+}
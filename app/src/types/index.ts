@@ -2,12 +2,14 @@
 import { Grant, GrantMetadata } from '@dgrants/types';
 import { TokenInfo } from '@uniswap/token-lists';
 import { Contract } from 'ethers';
+import { VerificationResult } from '@dgrants/dcurve';
 
 // Cart info saved in localStorage
 export type CartItemOptions = {
   grantId: number;
   contributionTokenAddress: string; // store address instead of TokenInfo to reduce localStorage size used
   contributionAmount: number; // store as a human-readable number for better form UX
+  rounds?: string[]; // addresses of the rounds the donor picked (every active round the grant is in when unset)
 };
 
 // Cart info used by the main Cart component -- GrantMetadata is optional as we don't have it immediately on page load
@@ -20,11 +22,18 @@ export type CartItem =
 export type EtherscanGroup = 'tx' | 'token' | 'address';
 
 // Cart prediction entries
-export type CartPrediction = { matching: number | boolean; matchingToken: TokenInfo };
+export type CartPrediction = { grantRound: string; matching: number | boolean; matchingToken: TokenInfo };
 export type CartPredictions = {
   [grantId: number]: CartPrediction[];
 };
 
+// Budget split suggested for the cart, with the total predicted matching valued in DAI
+export type OptimizedCart = {
+  items: Pick<CartItemOptions, 'grantId' | 'contributionAmount'>[];
+  match: number; // with the suggested split
+  currentMatch: number; // with the amounts currently in the cart
+};
+
 // Version/name given to the default localForage instance
 export type LocalForageConfig = {
   name: string;
@@ -46,3 +55,9 @@ export type BatchFilterQuery = {
   filter: string;
   args: any[]; // eslint-disable-line @typescript-eslint/no-explicit-any
 };
+
+// Outcome of recalculating a rounds payout in the browser
+export type PayoutVerification = VerificationResult & {
+  canDiffGrants: boolean; // false when only the merkle tree was published
+  contributionCount: number; // number of contributions fetched from the chain
+};
@@ -50,6 +50,12 @@ interface L1ChainInfo {
   readonly grantRoundManager: string;
   readonly grantRoundManagerAbi: ContractInterface;
   readonly multicall: string;
+  readonly swaps: {
+    readonly isUniV2: boolean; // Uniswap V2 style exchanges take an array of tokens as the path (GrantRoundManagerUniV2)
+    readonly factory: string; // used to find the pools between tokens
+    readonly quoter: string; // Uniswap V3 Quoter, or the Uniswap V2 style router (used for getAmountsOut)
+    readonly baseTokens: string[]; // liquid tokens that multi-hop routes can pass through
+  };
   readonly startBlock: number; // block to start scanning from when looking for events, if none is cached, recommend GrantRegistry deploy block
   readonly filterBlockLimit: number; // the number of blocks to batch filter calls into
 }
@@ -139,6 +145,16 @@ export const ALL_CHAIN_INFO: ChainInfo = {
     grantRoundManager: '0xB40a90fdB0163cA5C82D1959dB7e56B50A0dC016',
     grantRoundManagerAbi: GRANT_ROUND_MANAGER_ABI_UNI_V3_ABI,
     multicall: '0x5BA1e12693Dc8F9c48aAD8770482f4739bEeD696',
+    swaps: {
+      isUniV2: false,
+      factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+      quoter: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
+      baseTokens: [
+        '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+        '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+        '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+      ],
+    },
     rpcUrl: `https://eth-mainnet.alchemyapi.io/v2/${ALCHEMY_API_KEY}`,
     subgraphUrl: false,
     startBlock: 13186294,
@@ -155,6 +171,16 @@ export const ALL_CHAIN_INFO: ChainInfo = {
     grantRoundManager: '',
     grantRoundManagerAbi: GRANT_ROUND_MANAGER_ABI_UNI_V3_ABI,
     multicall: '0x5BA1e12693Dc8F9c48aAD8770482f4739bEeD696',
+    swaps: {
+      isUniV2: false,
+      factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+      quoter: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
+      baseTokens: [
+        '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+        '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+        '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+      ],
+    },
     rpcUrl: `https://eth-mainnet.alchemyapi.io/v2/${ALCHEMY_API_KEY}`,
     subgraphUrl: false,
     startBlock: 13285176,
@@ -173,6 +199,18 @@ export const ALL_CHAIN_INFO: ChainInfo = {
     grantRoundManager: '0xea19530074A139eAd5D68e18fD304C97e4e2BAf3',
     grantRoundManagerAbi: GRANT_ROUND_MANAGER_UNI_V2_ABI,
     multicall: '0xd3BB9902C9ae1ECbDB9cCAdbD009F827699185Cb',
+    swaps: {
+      // SushiSwap
+      isUniV2: true,
+      factory: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
+      quoter: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+      baseTokens: [
+        '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WMATIC
+        '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', // WETH
+        '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', // USDC
+        '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', // USDT
+      ],
+    },
     rpcUrl: 'https://polygon-rpc.com/',
     subgraphUrl: 'https://api.studio.thegraph.com/query/10555/testing-dgrants/v0.0.1e-matic',
     startBlock: 19834043,
@@ -189,6 +227,12 @@ export const ALL_CHAIN_INFO: ChainInfo = {
     grantRoundManager: '0xa1f0230045eAb2D2F2c4ef1B7bD53330Bd41f862',
     grantRoundManagerAbi: GRANT_ROUND_MANAGER_ABI_UNI_V3_ABI,
     multicall: '0x5BA1e12693Dc8F9c48aAD8770482f4739bEeD696',
+    swaps: {
+      isUniV2: false,
+      factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+      quoter: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
+      baseTokens: ['0xc778417E063141139Fce010982780140Aa0cD5Ab'],
+    },
     rpcUrl: `https://eth-rinkeby.alchemyapi.io/v2/${ALCHEMY_API_KEY}`,
     subgraphUrl: 'https://api.studio.thegraph.com/query/10555/testing-dgrants/v0.0.1d-rinkeby',
     startBlock: 9306030,
@@ -206,6 +250,7 @@ export const GRANT_REGISTRY_ADDRESS = CHAIN_INFO.grantRegistry;
 export const GRANT_ROUND_MANAGER_ADDRESS = CHAIN_INFO.grantRoundManager;
 export const GRANT_ROUND_MANAGER_ABI = CHAIN_INFO.grantRoundManagerAbi;
 export const MULTICALL_ADDRESS = CHAIN_INFO.multicall;
+export const SWAPS = CHAIN_INFO.swaps;
 export const RPC_URL = CHAIN_INFO.rpcUrl;
 export const SUBGRAPH_URL = CHAIN_INFO.subgraphUrl;
 export const START_BLOCK = CHAIN_INFO.startBlock;
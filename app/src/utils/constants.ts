@@ -20,6 +20,7 @@ export { abi as GRANT_REGISTRY_ABI } from '@dgrants/contracts/artifacts/contract
 export { abi as GRANT_ROUND_ABI } from '@dgrants/contracts/artifacts/contracts/GrantRound.sol/GrantRound.json';
 export { abi as GRANT_ROUND_MANAGER_ABI } from '@dgrants/contracts/artifacts/contracts/GrantRoundManager.sol/GrantRoundManager.json';
 export { abi as GRANT_ROUND_MANAGER_UNI_V2_ABI } from '@dgrants/contracts/artifacts/contracts/GrantRoundManagerUniV2.sol/GrantRoundManagerUniV2.json';
+export { abi as MERKLE_GRANT_ROUND_PAYOUT_ABI } from '@dgrants/contracts/artifacts/contracts/MerkleGrantRoundPayout.sol/MerkleGrantRoundPayout.json';
 
 // Tokens
 export const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
@@ -34,6 +35,13 @@ export const ERC20_ABI = [
   'event Transfer(address indexed from, address indexed to, uint amount)',
 ];
 
+// Swap routing through Uniswap V3, or Uniswap V2 style exchanges (e.g. SushiSwap)
+export const UNISWAP_V3_FEES = [500, 3000, 10000]; // fee tiers to look for pools in (in hundredths of a bip)
+export const UNISWAP_V3_FACTORY_ABI = ['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)']; // prettier-ignore
+export const UNISWAP_V3_QUOTER_ABI = ['function quoteExactInput(bytes path, uint256 amountIn) view returns (uint256 amountOut)']; // prettier-ignore
+export const UNISWAP_V2_FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address pair)'];
+export const UNISWAP_V2_ROUTER_ABI = ['function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)']; // prettier-ignore
+
 export const LOREM_IPSOM_TEXT = 'A brief description of your grant goes here.\n\nLorem ipsum dolor sit amet, consetetur sadipscing elitr, sed diam nonumy eirmod tempor invidunt ut labore et dolore magna aliquyam erat, sed diam voluptua.'; // prettier-ignore
 
 // LocalForage config
@@ -53,3 +61,4 @@ export const trustBonusKey = 'TrustBonus';
 // LocalForage key-prefixes (partial key, we store an object for each instance)
 export const grantRoundKeyPrefix = 'GrantRound-';
 export const grantRoundsCLRDataKeyPrefix = 'GrantRoundsGrantData-';
+export const grantRoundPayoutKeyPrefix = 'GrantRoundPayout-';
@@ -15,7 +15,13 @@ import { BigNumber, BigNumberish, Contract, Event } from 'ethers';
 import { formatUnits, getAddress } from 'ethers/lib/utils';
 import { formatNumber, callMulticallContract, batchFilterCall } from '../utils';
 import { syncStorage } from 'src/utils/data/utils';
-import { CLR, linear, InitArgs } from '@dgrants/dcurve';
+import {
+  CLR,
+  InitArgs,
+  getMatchingAlgorithmOptions,
+  getPredictionAxis,
+  getPredictedMatchingForAmount,
+} from '@dgrants/dcurve';
 import { filterContributionsByGrantId, filterContributionsByGrantRound } from './contributions';
 // --- Constants ---
 import { START_BLOCK, SUPPORTED_TOKENS_MAPPING, GRANT_REGISTRY_ADDRESS, SUBGRAPH_URL } from 'src/utils/chains';
@@ -266,11 +272,6 @@ export async function getGrantRoundGrantData(
   grantIds: number[],
   forceRefresh = false
 ) {
-  const clr = new CLR({
-    calcAlgo: linear,
-    includePayouts: false,
-  } as InitArgs);
-
   return await syncStorage(
     grantRoundsCLRDataKeyPrefix + grantRound.address,
     {
@@ -297,6 +298,13 @@ export async function getGrantRoundGrantData(
       ) {
         // get the rounds metadata
         const metadata = grantRoundMetadata[grantRound.metaPtr];
+        // the amounts to predict each grants match at (configured per round)
+        const predictionAxis = getPredictionAxis(metadata?.predictionAxis);
+        // use the algorithm (and params) configured by the round
+        const clr = new CLR({
+          ...getMatchingAlgorithmOptions(metadata?.matchingAlgorithm),
+          includePayouts: false,
+        } as InitArgs);
         // total the number of contributions being considered in the current prediction
         const oldDonationCount = _lsGrantDonations.length;
         // fetch contributions
@@ -314,7 +322,10 @@ export async function getGrantRoundGrantData(
         if (
           _lsTotalPot < totalPot ||
           _lsGrantDonations.length > oldDonationCount ||
-          (metadata.grants?.length || 0) > Object.keys(_lsGrantPredictions).length
+          (metadata.grants?.length || 0) > Object.keys(_lsGrantPredictions).length ||
+          Object.values(_lsGrantPredictions as Record<string, GrantPrediction>).some(
+            (prediction) => String(prediction.axis) !== String(predictionAxis)
+          )
         ) {
           // scores are to be presented in an array
           const trustBonusScores = Object.keys(trustBonus).map((address) => {
@@ -332,7 +343,7 @@ export async function getGrantRoundGrantData(
                 if (metadata && metadata.grants?.includes(grantId)) {
                   prediction = await clr.predict({
                     grantId: grantId,
-                    predictionPoints: [0, 1, 10, 100, 1000, 10000],
+                    predictionPoints: predictionAxis,
                     trustBonusScores: trustBonusScores,
                     grantRoundContributions: {
                       grantRound: roundAddress,
@@ -381,6 +392,20 @@ export function getPredictionsForGrantInRound(grantId: number, roundData: GrantR
   return roundData && roundData.predictions && roundData.predictions[Number(grantId)];
 }
 
+/**
+ * @notice Returns the active rounds which the grant is a member of (these are the only rounds a donation can count
+ * towards)
+ */
+export function filterEligibleRounds(
+  grantId: number,
+  rounds: GrantRound[],
+  roundsMetadata: Record<string, GrantRoundMetadataResolution>
+) {
+  return rounds.filter(
+    (round) => round.status === 'Active' && roundsMetadata[round.metaPtr]?.grants?.includes(grantId)
+  );
+}
+
 /**
  * @notice Returns the details for all grantRounds this grant is a member of
  */
@@ -417,9 +442,9 @@ export function getGrantsGrantRoundDetails(
           contributions: roundContributions,
           balance: formatNumber(roundsContributionTotal, 2),
           matching: predictions && formatNumber(predictions.predictions[0].predictedGrantMatch, 2),
-          prediction1: predictions && formatNumber(predictions.predictions[1].predictionDiff, 2),
-          prediction10: predictions && formatNumber(predictions.predictions[2].predictionDiff, 2),
-          prediction100: predictions && formatNumber(predictions.predictions[3].predictionDiff, 2),
+          prediction1: predictions && formatNumber(getPredictedMatchingForAmount(predictions, 1), 2),
+          prediction10: predictions && formatNumber(getPredictedMatchingForAmount(predictions, 10), 2),
+          prediction100: predictions && formatNumber(getPredictedMatchingForAmount(predictions, 100), 2),
         } as GrantsRoundDetails;
       } else {
         return false;
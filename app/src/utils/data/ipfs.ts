@@ -1,11 +1,9 @@
-import { createIpfs } from '@dgrants/utils/src/ipfs';
+import { createIpfs, retrievalEndpoint } from '@dgrants/utils/src/ipfs';
 import { GrantMetadata } from '@dgrants/types';
 import { getStorageKey, setStorageKey } from './utils';
 import { LocalForageData } from 'src/types';
 import { Ref } from 'vue';
 
-const retrievalEndpoint = 'https://ipfs-dev.fleek.co/ipfs';
-
 export const ipfs = createIpfs(import.meta.env.VITE_FLEEK_STORAGE_API_KEY);
 
 export const uploadFile = async (file: File) => {
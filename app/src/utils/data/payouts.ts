@@ -0,0 +1,448 @@
+// --- Types ---
+import {
+  Claim,
+  GrantRound,
+  GrantRoundMetadata,
+  GrantRoundPayout,
+  MatchingAlgorithm,
+  PayoutClaim,
+} from '@dgrants/types';
+import { MerkleDistributorInfo } from '@dgrants/utils/src/merkle-distributor/parse-balance-map';
+import { MerkleGrantRoundPayout } from '@dgrants/contracts';
+import { LocalForageData, LocalForageAnyObj, PayoutVerification } from 'src/types';
+// --- Methods and Data ---
+import useWalletStore from 'src/store/wallet';
+import { Event } from 'ethers';
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  ContractTransaction,
+  formatUnits,
+  getAddress,
+  JsonRpcSigner,
+} from 'src/utils/ethers';
+import { batchFilterCall, callMulticallContract } from '../utils';
+import { syncStorage } from 'src/utils/data/utils';
+import {
+  CLR,
+  fetch as fetchContributions,
+  getMatchingAlgorithmOptions,
+  getRoundingOptions,
+  GrantsDistribution,
+  InitArgs,
+  RoundingOptions,
+} from '@dgrants/dcurve';
+import { resolveMetaPtr } from './ipfs';
+import { Ref } from 'vue';
+// --- Constants ---
+import {
+  FILTER_BLOCK_LIMIT,
+  GRANT_REGISTRY_ADDRESS,
+  GRANT_ROUND_MANAGER_ADDRESS,
+  START_BLOCK,
+  SUBGRAPH_URL,
+  SUPPORTED_TOKENS_MAPPING,
+} from 'src/utils/chains';
+import { ERC20_ABI, MERKLE_GRANT_ROUND_PAYOUT_ABI, grantRoundPayoutKeyPrefix } from 'src/utils/constants';
+
+const { provider } = useWalletStore();
+
+// payees as stored against each round (amounts in the matching tokens smallest unit)
+type StoredPayees = Record<string, { index: number; amount: string }>;
+
+/**
+ * @notice Resolves the merkle tree published for a rounds payout
+ * @dev The distributionMetaPtr can point to a GrantsDistribution or a finalization bundle (which carry the tree as
+ * `merkle`) or to the MerkleDistributorInfo itself
+ *
+ * @param {GrantRoundMetadata['payout']} payout The rounds payout details (from its metadata)
+ * @returns MerkleDistributorInfo
+ */
+export async function getPayoutDistribution(payout: NonNullable<GrantRoundMetadata['payout']>) {
+  const distribution = await resolveMetaPtr(payout.distributionMetaPtr);
+  const merkle = <MerkleDistributorInfo>(distribution?.merkle || distribution);
+  if (!merkle?.merkleRoot || !merkle?.claims) {
+    throw new Error(`No merkle distribution found at ${payout.distributionMetaPtr}`);
+  }
+
+  return merkle;
+}
+
+/**
+ * @notice Finds the payees claim in the merkle tree
+ *
+ * @param {MerkleDistributorInfo} merkle The published merkle tree
+ * @param {string} payee The payees address
+ * @returns Claim (or undefined when the payee has nothing to claim)
+ */
+export function getPayeeClaim(merkle: MerkleDistributorInfo, payee: string) {
+  // claims are keyed by checksummed address
+  const claim = merkle.claims[getAddress(payee)];
+
+  return claim
+    ? <Claim>{
+        index: claim.index,
+        payee: getAddress(payee),
+        amount: BigNumber.from(claim.amount),
+        merkleProof: claim.proof,
+      }
+    : undefined;
+}
+
+/**
+ * @notice Checks which of the claims have already been made against the payout contract
+ *
+ * @param {string} payoutAddress The MerkleGrantRoundPayout contract
+ * @param {Claim[]} claims The claims to check
+ * @returns boolean for each claim (true when it has been claimed)
+ */
+export async function getHasClaimed(payoutAddress: string, claims: Claim[]) {
+  if (!claims.length) return [];
+
+  // open the payout contract (multicall only needs its interface)
+  const payoutContract = new Contract(payoutAddress, MERKLE_GRANT_ROUND_PAYOUT_ABI);
+  // check every index in one call
+  const hasClaimed = await callMulticallContract([
+    {
+      target: payoutAddress,
+      contract: payoutContract,
+      fns: claims.map((claim) => ({ fn: 'hasClaimed', args: [claim.index] })),
+    },
+  ]);
+
+  return hasClaimed.map((claimed) => Boolean(claimed));
+}
+
+/**
+ * @notice Submits the claim to the payout contract
+ *
+ * @param {JsonRpcSigner} signer The connected wallet
+ * @param {string} payoutAddress The MerkleGrantRoundPayout contract
+ * @param {Claim} claim The claim (with its merkle proof)
+ * @returns ContractTransaction
+ */
+export async function claimPayout(signer: JsonRpcSigner, payoutAddress: string, claim: Claim) {
+  const payoutContract = <MerkleGrantRoundPayout>new Contract(payoutAddress, MERKLE_GRANT_ROUND_PAYOUT_ABI, signer);
+
+  // the payout is sent to the payee (whoever submits the claim)
+  const tx: ContractTransaction = await payoutContract.claim(claim);
+
+  return tx;
+}
+
+/**
+ * @notice Get/Refresh the payout of a round - its payees and every claim made against the payout contract
+ *
+ * @param {number} blockNumber The current block number
+ * @param {GrantRound} grantRound The round being paid out
+ * @param {GrantRoundMetadata['payout']} payout The rounds payout details (from its metadata)
+ * @param {boolean} forceRefresh Force the cache to refresh
+ * @returns GrantRoundPayout
+ */
+export async function getGrantRoundPayout(
+  blockNumber: number,
+  grantRound: GrantRound,
+  payout: NonNullable<GrantRoundMetadata['payout']>,
+  forceRefresh = false
+) {
+  return (await syncStorage(
+    grantRoundPayoutKeyPrefix + grantRound.address,
+    {
+      blockNumber: blockNumber,
+    },
+    async (LocalForageData?: LocalForageData | undefined, save?: (saveData: LocalForageAnyObj) => void) => {
+      // anything indexed against a previous payout (or distribution) is dropped
+      const isCurrent =
+        LocalForageData?.data?.payoutAddress === payout.address &&
+        LocalForageData?.data?.distributionMetaPtr === payout.distributionMetaPtr;
+      // check how far out of sync we are from the cache and pull any events that happened bwtween then and now
+      const _lsBlockNumber = isCurrent ? LocalForageData?.blockNumber || 0 : 0;
+      // pull the indexed payees and claims from localStorage
+      let _lsPayees: StoredPayees | undefined = isCurrent ? LocalForageData?.data?.payees : undefined;
+      const _lsClaims: Record<number, PayoutClaim> = (isCurrent && LocalForageData?.data?.claims) || {};
+
+      // the payees only need to be read from the distribution once
+      if (!_lsPayees) {
+        const merkle = await getPayoutDistribution(payout);
+        _lsPayees = Object.keys(merkle.claims).reduce((payees: StoredPayees, payee: string) => {
+          payees[getAddress(payee)] = {
+            index: merkle.claims[payee].index,
+            amount: BigNumber.from(merkle.claims[payee].amount).toString(),
+          };
+
+          return payees;
+        }, {});
+      }
+
+      // every block
+      if (forceRefresh || !isCurrent || _lsBlockNumber < blockNumber) {
+        // get the most recent block we collected
+        const fromBlock = _lsBlockNumber ? _lsBlockNumber + 1 : START_BLOCK;
+        // pull any claims made since we last polled
+        if (fromBlock < blockNumber) {
+          const payoutContract = new Contract(payout.address, MERKLE_GRANT_ROUND_PAYOUT_ABI, provider.value);
+          const claimedEvents = await batchFilterCall(
+            {
+              contract: payoutContract,
+              filter: 'Claimed',
+              args: [],
+            },
+            fromBlock,
+            blockNumber
+          );
+          claimedEvents.forEach((event: Event) => {
+            const claim = toPayoutClaim(event.args?.index, event.args?.payee, event.args?.amount, event);
+            _lsClaims[claim.index] = claim;
+          });
+        }
+      }
+
+      // save the raw state (the totals are derived on read)
+      if (save) {
+        save({
+          payoutAddress: payout.address,
+          distributionMetaPtr: payout.distributionMetaPtr,
+          payees: _lsPayees,
+          claims: _lsClaims,
+        });
+      }
+
+      return toGrantRoundPayout(grantRound, payout, _lsPayees, _lsClaims);
+    }
+  )) as GrantRoundPayout;
+}
+
+/**
+ * @notice Attach an event listener on payoutContract->Claimed
+ */
+export function claimedListener(
+  args: {
+    grantRound: GrantRound;
+    payout: NonNullable<GrantRoundMetadata['payout']>;
+  },
+  refs: Record<string, Ref>
+) {
+  const payoutContract = new Contract(args.payout.address, MERKLE_GRANT_ROUND_PAYOUT_ABI, provider.value);
+  const listener = async (index: BigNumberish, payee: string, amount: BigNumberish, event: Event) => {
+    console.log('New Claimed event: ', { index: BigNumber.from(index).toNumber(), payee: payee });
+    void (await syncStorage(
+      grantRoundPayoutKeyPrefix + args.grantRound.address,
+      {
+        blockNumber: await provider.value.getBlockNumber(),
+      },
+      async (LocalForageData?: LocalForageData | undefined, save?: (saveData: LocalForageAnyObj) => void) => {
+        // the round has to have been indexed by getGrantRoundPayout first
+        if (LocalForageData?.data?.payoutAddress !== args.payout.address) return {};
+
+        // record the claim
+        const _lsPayees: StoredPayees = LocalForageData.data.payees;
+        const _lsClaims: Record<number, PayoutClaim> = LocalForageData.data.claims || {};
+        const claim = toPayoutClaim(index, payee, amount, event);
+        _lsClaims[claim.index] = claim;
+
+        // update the rounds payout
+        refs.grantRoundPayouts.value[args.grantRound.address] = toGrantRoundPayout(
+          args.grantRound,
+          args.payout,
+          _lsPayees,
+          _lsClaims
+        );
+
+        // save into localstorage
+        if (save) {
+          save({
+            ...LocalForageData.data,
+            claims: _lsClaims,
+          });
+        }
+
+        return {};
+      }
+    ));
+  };
+
+  // apply the Claimed filter and listen for events
+  payoutContract.on('Claimed', listener);
+
+  return {
+    off: () => payoutContract.off('Claimed', listener),
+  };
+}
+
+/**
+ * @notice Recalculates a rounds distribution in the browser and checks it against the payout contracts merkle root
+ * @dev The contributions are fetched from the chain and the scores are read from the trustBonusMetaPtr recorded in the
+ * published distribution. A distribution (or finalization bundle) is also diffed grant by grant, a bare merkle tree
+ * can only be checked against the root
+ *
+ * @param {GrantRound} grantRound The round to verify
+ * @param {GrantRoundMetadata} metadata The rounds metadata (with its payout)
+ * @returns PayoutVerification
+ */
+export async function verifyGrantRoundPayout(
+  grantRound: GrantRound,
+  metadata: GrantRoundMetadata
+): Promise<PayoutVerification> {
+  const payout = metadata.payout;
+  if (!payout) throw new Error('This round has not been paid out');
+
+  // the root the matching funds are claimed against and what was published alongside it
+  const payoutContract = <MerkleGrantRoundPayout>(
+    new Contract(payout.address, MERKLE_GRANT_ROUND_PAYOUT_ABI, provider.value)
+  );
+  const [merkleRoot, published] = await Promise.all([
+    payoutContract.merkleRoot(),
+    resolveMetaPtr(payout.distributionMetaPtr),
+  ]);
+
+  // a bundle holds its scores, a distribution records where they were published
+  const trustBonusMetaPtr: string = published?.trustBonusMetaPtr || '';
+  if (!trustBonusMetaPtr && !published?.trustBonusScores) {
+    throw new Error(`The distribution at ${payout.distributionMetaPtr} does not record its trust bonus scores`);
+  }
+
+  // a bundle pins the algorithm version, otherwise use what the round configured
+  const matchingAlgorithm: MatchingAlgorithm | undefined = published?.algorithm
+    ? { name: published.algorithm.name, version: published.algorithm.version, params: published.algorithm.params }
+    : metadata.matchingAlgorithm;
+
+  // fetch the rounds contributions from the chain (leaving out anything the published distribution ignored)
+  const grantRoundContributions = await fetchContributions({
+    provider: provider.value,
+    grantRound: grantRound.address,
+    grantRegistry: GRANT_REGISTRY_ADDRESS,
+    grantRoundManager: GRANT_ROUND_MANAGER_ADDRESS,
+    supportedTokens: SUPPORTED_TOKENS_MAPPING,
+    ignore: published?.ignore,
+    fromBlock: START_BLOCK,
+    blockBatchSize: FILTER_BLOCK_LIMIT,
+    subgraphUrl: SUBGRAPH_URL,
+  });
+
+  // the rounds balance is emptied by the payout, so the pot is what was published (or what was paid into the payout)
+  const totalPotUnits = BigNumber.from(
+    published?.contributions?.totalPotUnits ||
+      (await getPayoutFunding(grantRound, payout.address, grantRoundContributions.toBlock))
+  );
+  grantRoundContributions.totalPot = parseFloat(
+    formatUnits(totalPotUnits, grantRoundContributions.matchingTokenDecimals)
+  );
+  grantRoundContributions.totalPotUnits = totalPotUnits.toString();
+
+  // grants can only be diffed when the published document holds the distribution
+  const distribution: GrantsDistribution | undefined = Array.isArray(published?.distribution?.distribution)
+    ? published.distribution
+    : Array.isArray(published?.distribution)
+    ? published
+    : undefined;
+
+  // a bundle records its rounding, a distribution's can be read back from its payoutAdjustments
+  const rounding: RoundingOptions =
+    published?.rounding ||
+    (distribution ? getRoundingOptions(distribution, grantRoundContributions.matchingTokenDecimals) : {});
+  const clr = new CLR({
+    ...getMatchingAlgorithmOptions(matchingAlgorithm),
+    ...rounding,
+    includePayouts: true,
+  } as InitArgs);
+
+  const result = await clr.verify(grantRoundContributions, trustBonusMetaPtr, merkleRoot, {
+    distribution: distribution,
+    trustBonusScores: published?.trustBonusScores,
+  });
+
+  return {
+    ...result,
+    canDiffGrants: Boolean(distribution),
+    contributionCount: grantRoundContributions.contributions.length,
+  };
+}
+
+/**
+ * @notice Sums the matching tokens the round transferred into its payout contract
+ *
+ * @param {GrantRound} grantRound The round which was paid out
+ * @param {string} payoutAddress The MerkleGrantRoundPayout contract holding the matching funds
+ * @param {number} fromBlock The block to search from (the payout is made after the round ends)
+ * @returns BigNumber
+ */
+async function getPayoutFunding(grantRound: GrantRound, payoutAddress: string, fromBlock = START_BLOCK) {
+  const matchingToken = new Contract(grantRound.matchingToken.address, ERC20_ABI, provider.value);
+  const transfers = await batchFilterCall(
+    {
+      contract: matchingToken,
+      filter: 'Transfer',
+      args: [grantRound.address, payoutAddress],
+    },
+    fromBlock,
+    await provider.value.getBlockNumber()
+  );
+
+  return transfers.reduce((total, transfer) => total.add(transfer.args?.amount || 0), BigNumber.from(0));
+}
+
+/**
+ * @notice Finds a payees status in a rounds payout
+ *
+ * @param {GrantRoundPayout} grantRoundPayout The rounds payout (undefined until the round has one)
+ * @param {string} payee The payees address (eg. a grants payee)
+ * @returns PayeeStatus (or undefined when the payee is not owed anything)
+ */
+export function getPayeeStatus(grantRoundPayout: GrantRoundPayout | undefined, payee: string) {
+  return grantRoundPayout ? grantRoundPayout.payees[getAddress(payee)] : undefined;
+}
+
+/**
+ * @notice Reads a Claimed event into a PayoutClaim
+ */
+function toPayoutClaim(index: BigNumberish, payee: string, amount: BigNumberish, event: Event) {
+  return {
+    index: BigNumber.from(index).toNumber(),
+    payee: getAddress(payee),
+    amount: BigNumber.from(amount).toString(),
+    txHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+  } as PayoutClaim;
+}
+
+/**
+ * @notice Marks each payee as claimed/unclaimed and totals the claimed and unclaimed amounts
+ */
+export function toGrantRoundPayout(
+  grantRound: GrantRound,
+  payout: NonNullable<GrantRoundMetadata['payout']>,
+  payees: StoredPayees,
+  claims: Record<number, PayoutClaim>
+) {
+  const decimals = grantRound.matchingToken.decimals;
+  let totalClaimed = BigNumber.from(0);
+  let totalUnclaimed = BigNumber.from(0);
+
+  // a payee has claimed once their index appears in a Claimed event
+  const payeeStatus = Object.keys(payees).reduce((status: GrantRoundPayout['payees'], payee: string) => {
+    const claimed = Boolean(claims[payees[payee].index]);
+    if (claimed) {
+      totalClaimed = totalClaimed.add(payees[payee].amount);
+    } else {
+      totalUnclaimed = totalUnclaimed.add(payees[payee].amount);
+    }
+    status[payee] = {
+      index: payees[payee].index,
+      amount: parseFloat(formatUnits(payees[payee].amount, decimals)),
+      claimed: claimed,
+    };
+
+    return status;
+  }, {});
+
+  return {
+    grantRound: grantRound.address,
+    payoutAddress: payout.address,
+    distributionMetaPtr: payout.distributionMetaPtr,
+    claims: claims,
+    payees: payeeStatus,
+    totalClaimed: parseFloat(formatUnits(totalClaimed, decimals)),
+    totalUnclaimed: parseFloat(formatUnits(totalUnclaimed, decimals)),
+  } as GrantRoundPayout;
+}
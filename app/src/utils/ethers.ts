@@ -28,4 +28,5 @@ export { hexDataSlice, hexStripZeros } from '@ethersproject/bytes';
 export { Contract } from '@ethersproject/contracts';
 export { JsonRpcProvider, JsonRpcSigner, Web3Provider } from '@ethersproject/providers';
 export { commify, formatUnits, parseUnits } from '@ethersproject/units';
-export { MaxUint256 } from '@ethersproject/constants';
+export { AddressZero, MaxUint256 } from '@ethersproject/constants';
+export { pack as solidityPack } from '@ethersproject/solidity';
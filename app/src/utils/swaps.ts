@@ -0,0 +1,231 @@
+/**
+ * @dev Finds swap routes into the GrantRoundManager's donationToken. Candidate pools are looked up through the
+ * exchange's factory, every route through them (directly, or via one of the chain's base tokens) is quoted, and the
+ * route with the best output is encoded the way the GrantRoundManager for this chain expects: Uniswap V3 bytes for
+ * GrantRoundManager, or an array of token addresses for GrantRoundManagerUniV2
+ */
+
+// --- Imports ---
+import { SWAPS, WETH_ADDRESS } from 'src/utils/chains';
+import {
+  ETH_ADDRESS,
+  UNISWAP_V2_FACTORY_ABI,
+  UNISWAP_V2_ROUTER_ABI,
+  UNISWAP_V3_FACTORY_ABI,
+  UNISWAP_V3_FEES,
+  UNISWAP_V3_QUOTER_ABI,
+} from 'src/utils/constants';
+import { AddressZero, BigNumber, BigNumberish, BytesLike, Contract, getAddress, solidityPack } from 'src/utils/ethers';
+import { getMulticallData } from 'src/utils/utils';
+import useWalletStore from 'src/store/wallet';
+
+// --- Types ---
+export type SwapRoute = {
+  path: BytesLike | string[]; // encoded for the GrantRoundManager on this chain
+  tokens: string[]; // tokens the route passes through, starting with the input token
+  amountOut: BigNumber; // quoted output (before slippage)
+  priceImpact: number; // percent the output falls short of the route's spot price because of the trade's size
+};
+
+// The spot price is estimated by quoting this fraction of the trade
+const SPOT_PRICE_DIVISOR = 1000;
+
+// A pool between two tokens (Uniswap V2 style exchanges have one pool per pair, so their fee is left undefined)
+export type Hop = { tokenIn: string; tokenOut: string; fee?: number };
+
+// --- Methods ---
+
+/**
+ * @notice Finds the route from `tokenIn` to `tokenOut` with the best output for `amountIn`
+ * @dev ETH is routed as WETH. When no swap is needed the route is just the output token, which the GrantRoundManager
+ * treats as a direct transfer
+ * @param tokenIn Token to swap from
+ * @param tokenOut Token to swap to (the GrantRoundManager's donationToken)
+ * @param amountIn Amount of `tokenIn`, as a full integer
+ */
+export async function findBestRoute(tokenIn: string, tokenOut: string, amountIn: BigNumberish): Promise<SwapRoute> {
+  tokenIn = getAddress(tokenIn === ETH_ADDRESS ? WETH_ADDRESS : tokenIn);
+  tokenOut = getAddress(tokenOut);
+
+  // no swap required
+  if (tokenIn === tokenOut) {
+    return { path: encodePath([], tokenOut), tokens: [tokenOut], amountOut: BigNumber.from(amountIn), priceImpact: 0 };
+  }
+
+  // quote every candidate and take the best output
+  const routes = await getCandidateRoutes(tokenIn, tokenOut);
+  const amountsOut = await quoteRoutes(routes, amountIn);
+  let bestIndex = -1;
+  routes.forEach((_hops, index) => {
+    const amountOut = amountsOut[index];
+    if (amountOut && (bestIndex === -1 || amountOut.gt(<BigNumber>amountsOut[bestIndex]))) bestIndex = index;
+  });
+  if (bestIndex === -1) throw new Error(`No swap route found from ${tokenIn} to ${tokenOut}`);
+  const hops = routes[bestIndex];
+  const amountOut = <BigNumber>amountsOut[bestIndex];
+
+  return {
+    path: encodePath(hops, tokenOut),
+    tokens: [...hops.map((hop) => hop.tokenIn), tokenOut],
+    amountOut,
+    priceImpact: await getPriceImpact(hops, BigNumber.from(amountIn), amountOut),
+  };
+}
+
+/**
+ * @notice Estimates how far a trade moves the price along its route
+ * @dev The spot price is taken from a quote for a small fraction of the trade, so pool fees are in both prices and
+ * don't count towards the impact
+ * @param hops Route of the trade
+ * @param amountIn Input of the trade, as a full integer
+ * @param amountOut Quoted output of the trade, as a full integer
+ * @returns Price impact as a percent (0 when the trade is too small to measure)
+ */
+async function getPriceImpact(hops: Hop[], amountIn: BigNumber, amountOut: BigNumber): Promise<number> {
+  const spotAmountIn = amountIn.div(SPOT_PRICE_DIVISOR);
+  if (spotAmountIn.isZero()) return 0;
+  const [spotAmountOut] = await quoteRoutes([hops], spotAmountIn);
+  if (!spotAmountOut || spotAmountOut.isZero()) return 0;
+
+  // compare the output with what the whole trade would get at the spot price (in basis points)
+  const spotTotal = spotAmountOut.mul(amountIn).div(spotAmountIn);
+  const impact = spotTotal.sub(amountOut).mul(10000).div(spotTotal).toNumber() / 100;
+
+  return Math.max(impact, 0);
+}
+
+/**
+ * @notice Lists the routes from `tokenIn` to `tokenOut` through existing pools, either directly or through one of the
+ * chain's base tokens
+ * @param tokenIn Checksummed token to swap from
+ * @param tokenOut Checksummed token to swap to
+ */
+async function getCandidateRoutes(tokenIn: string, tokenOut: string): Promise<Hop[][]> {
+  const baseTokens = SWAPS.baseTokens
+    .map((token) => getAddress(token))
+    .filter((token) => ![tokenIn, tokenOut].includes(token));
+
+  // every pool a route could use
+  const hops: Hop[] = [];
+  for (const fee of SWAPS.isUniV2 ? [undefined] : UNISWAP_V3_FEES) {
+    hops.push({ tokenIn, tokenOut, fee });
+    baseTokens.forEach((base) => {
+      hops.push({ tokenIn, tokenOut: base, fee });
+      hops.push({ tokenIn: base, tokenOut, fee });
+    });
+  }
+
+  // keep the pools which exist
+  const { multicall } = useWalletStore();
+  const factoryAbi = SWAPS.isUniV2 ? UNISWAP_V2_FACTORY_ABI : UNISWAP_V3_FACTORY_ABI;
+  const factory = new Contract(SWAPS.factory, factoryAbi, multicall.value.provider);
+  const fn = SWAPS.isUniV2 ? 'getPair' : 'getPool';
+  const calls = [
+    {
+      target: SWAPS.factory,
+      contract: factory,
+      fns: hops.map((hop) => ({
+        fn,
+        args: hop.fee === undefined ? [hop.tokenIn, hop.tokenOut] : [hop.tokenIn, hop.tokenOut, hop.fee],
+      })),
+    },
+  ];
+  const { returnData } = await multicall.value.tryBlockAndAggregate(false, getMulticallData(calls));
+  const pools = hops.filter((_hop, index) => {
+    if (!returnData[index].success) return false;
+    const [pool] = factory.interface.decodeFunctionResult(fn, returnData[index].returnData);
+    return pool !== AddressZero;
+  });
+
+  // join the pools up into routes
+  const routes: Hop[][] = pools
+    .filter((hop) => hop.tokenIn === tokenIn && hop.tokenOut === tokenOut)
+    .map((hop) => [hop]);
+  pools
+    .filter((first) => first.tokenIn === tokenIn && first.tokenOut !== tokenOut)
+    .forEach((first) => {
+      pools
+        .filter((second) => second.tokenIn === first.tokenOut && second.tokenOut === tokenOut)
+        .forEach((second) => routes.push([first, second]));
+    });
+
+  return routes;
+}
+
+/**
+ * @notice Quotes each route, using the Uniswap V3 Quoter or the Uniswap V2 style router's getAmountsOut
+ * @param routes Routes to quote
+ * @param amountIn Input amount, as a full integer
+ * @returns The output of each route (undefined where the quote failed, e.g. the pool has no liquidity)
+ */
+async function quoteRoutes(routes: Hop[][], amountIn: BigNumberish): Promise<(BigNumber | undefined)[]> {
+  if (!routes.length) return [];
+
+  const { multicall } = useWalletStore();
+  const quoterAbi = SWAPS.isUniV2 ? UNISWAP_V2_ROUTER_ABI : UNISWAP_V3_QUOTER_ABI;
+  const quoter = new Contract(SWAPS.quoter, quoterAbi, multicall.value.provider);
+  const fn = SWAPS.isUniV2 ? 'getAmountsOut' : 'quoteExactInput';
+  const calls = [
+    {
+      target: SWAPS.quoter,
+      contract: quoter,
+      fns: routes.map((hops) => ({
+        fn,
+        args: SWAPS.isUniV2 ? [amountIn, encodeV2Path(hops)] : [encodeV3Path(hops), amountIn],
+      })),
+    },
+  ];
+  const { returnData } = await multicall.value.tryBlockAndAggregate(false, getMulticallData(calls));
+
+  return routes.map((_hops, index) => {
+    if (!returnData[index].success) return undefined;
+    const [result] = quoter.interface.decodeFunctionResult(fn, returnData[index].returnData);
+    // getAmountsOut returns the amount after each hop
+    return <BigNumber>(Array.isArray(result) ? result[result.length - 1] : result);
+  });
+}
+
+/**
+ * @notice Encodes a route in the format expected by the GrantRoundManager for this chain
+ * @param hops Pools the route passes through (empty when no swap is required)
+ * @param tokenOut Output token, only required when there are no hops
+ */
+function encodePath(hops: Hop[], tokenOut?: string): BytesLike | string[] {
+  return SWAPS.isUniV2 ? encodeV2Path(hops, tokenOut) : encodeV3Path(hops, tokenOut);
+}
+
+/**
+ * @notice Returns the amountOutMin expected for a quoted trade allowing for the given slippage
+ * @param amountOut Quoted output of the swap, as a full integer
+ * @param slippageTolerance Percent the output is allowed to fall below the quote
+ */
+export function getAmountOutMin(amountOut: BigNumber, slippageTolerance: number): BigNumber {
+  // work in basis points, e.g. 0.5% slippage multiplies by 9950/10000
+  return amountOut.mul(Math.round((100 - slippageTolerance) * 100)).div(10000);
+}
+
+/**
+ * @notice Lists the tokens a route passes through, which is the path Uniswap V2 style routers expect
+ * @param hops Pools the route passes through (empty when no swap is required)
+ * @param tokenOut Output token, only required when there are no hops
+ */
+export function encodeV2Path(hops: Hop[], tokenOut?: string): string[] {
+  return hops.length ? [...hops.map((hop) => hop.tokenIn), hops[hops.length - 1].tokenOut] : [<string>tokenOut];
+}
+
+/**
+ * @notice Encodes a route as a Uniswap V3 path: the tokens interleaved with the fee of the pool between them
+ * @param hops Pools the route passes through (empty when no swap is required)
+ * @param tokenOut Output token, only required when there are no hops
+ */
+export function encodeV3Path(hops: Hop[], tokenOut?: string): string {
+  const tokens = encodeV2Path(hops, tokenOut);
+  const types: string[] = ['address'];
+  const values: (string | number)[] = [tokens[0]];
+  hops.forEach((hop) => {
+    types.push('uint24', 'address');
+    values.push(<number>hop.fee, hop.tokenOut);
+  });
+
+  return solidityPack(types, values);
+}
@@ -153,6 +153,15 @@ export function getEtherscanUrl(hash: string, group: EtherscanGroup = 'tx') {
   return `${ETHERSCAN_BASE_URL}/${group}/${hash}`;
 }
 
+// Delays calling `fn` until `wait` ms have passed without another call (the last call's args are used)
+export function debounce<T extends unknown[]>(fn: (...args: T) => unknown, wait: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return (...args: T) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => fn(...args), wait);
+  };
+}
+
 /**
  * @notice Throws an error if the user does not have sufficient balance for the specified token
  * @param tokenAddress Address of the token to check
@@ -188,7 +197,7 @@ export const getMulticallData = (
   calls: {
     target: string;
     contract: Contract;
-    fns: (string | { fn: string; args: (string | BigNumberish | boolean)[] })[];
+    fns: (string | { fn: string; args: (string | string[] | BigNumberish | boolean)[] })[];
   }[]
 ) => {
   const flatMap: {
@@ -203,7 +212,7 @@ export const getMulticallData = (
           target: call.target,
           callData: call.contract.interface.encodeFunctionData(
             args[0] as string,
-            args[1] as (string | BigNumberish | boolean)[]
+            args[1] as (string | string[] | BigNumberish | boolean)[]
           ),
         };
       })
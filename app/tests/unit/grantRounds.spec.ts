@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import { GrantRound, GrantRoundMetadataResolution } from '@dgrants/types';
+import { filterEligibleRounds } from 'src/utils/data/grantRounds';
+
+// a round at address n with its metadata at `meta-n`
+const round = (n: number, status: string) =>
+  ({ address: `0x${n.toString(16).padStart(40, '0')}`, metaPtr: `meta-${n}`, status } as GrantRound);
+
+describe('filterEligibleRounds', () => {
+  const rounds = [
+    round(1, 'Active'),
+    round(2, 'Active'),
+    round(3, 'Upcoming'),
+    round(4, 'Complete'),
+    round(5, 'Active'),
+  ];
+  const roundsMetadata: Record<string, GrantRoundMetadataResolution> = {
+    'meta-1': { status: 'resolved', grants: [1, 2] },
+    'meta-2': { status: 'resolved', grants: [2] },
+    'meta-3': { status: 'resolved', grants: [1, 2] },
+    'meta-4': { status: 'resolved', grants: [1, 2] },
+    // round 5's metadata has not resolved yet
+    'meta-5': { status: 'pending' },
+  };
+
+  it('returns the active rounds the grant is a member of', () => {
+    expect(filterEligibleRounds(2, rounds, roundsMetadata)).to.deep.equal([rounds[0], rounds[1]]);
+    expect(filterEligibleRounds(1, rounds, roundsMetadata)).to.deep.equal([rounds[0]]);
+  });
+
+  it('leaves out rounds which are not active or whose metadata has not resolved', () => {
+    expect(filterEligibleRounds(3, rounds, roundsMetadata)).to.be.empty;
+    expect(filterEligibleRounds(1, [rounds[2], rounds[3], rounds[4]], roundsMetadata)).to.be.empty;
+    expect(filterEligibleRounds(1, rounds, {})).to.be.empty;
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import { GrantRound, PayoutClaim } from '@dgrants/types';
+import { BalanceTree } from '@dgrants/utils/src/merkle-distributor/balance-tree';
+import { parseBalanceMap } from '@dgrants/utils/src/merkle-distributor/parse-balance-map';
+import { getPayeeClaim, getPayeeStatus, toGrantRoundPayout } from 'src/utils/data/payouts';
+import { BigNumber, getAddress } from 'src/utils/ethers';
+
+// a distinct (lowercase) address for each n
+const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+
+// hex string as the Buffer the BalanceTree works with
+const toBuffer = (hex: string) => Buffer.from(hex.slice(2), 'hex');
+
+describe('getPayeeClaim', () => {
+  const merkle = parseBalanceMap({ [address(10)]: 100, [address(11)]: 250 });
+
+  it('finds the claim of a payee given in any case', () => {
+    const claim = getPayeeClaim(merkle, address(11).toUpperCase().replace('0X', '0x'));
+
+    expect(claim?.payee).to.equal(getAddress(address(11)));
+    expect(claim?.index).to.equal(merkle.claims[getAddress(address(11))].index);
+    expect(BigNumber.from(claim?.amount).toNumber()).to.equal(250);
+  });
+
+  it('proves the claim against the root', () => {
+    const claim = getPayeeClaim(merkle, address(10));
+    if (!claim) throw new Error('The payee should have a claim');
+
+    const verified = BalanceTree.verifyProof(
+      claim.index,
+      claim.payee,
+      BigNumber.from(claim.amount),
+      claim.merkleProof.map(toBuffer),
+      toBuffer(merkle.merkleRoot)
+    );
+    expect(verified).to.be.true;
+  });
+
+  it('returns nothing for an address which is not a payee', () => {
+    expect(getPayeeClaim(merkle, address(12))).to.be.undefined;
+  });
+});
+
+describe('toGrantRoundPayout', () => {
+  const grantRound = { address: address(100), matchingToken: { decimals: 6 } } as GrantRound;
+  const payout = { address: address(101), distributionMetaPtr: 'QmDistribution' };
+  const payees = {
+    [getAddress(address(10))]: { index: 0, amount: '1500000' },
+    [getAddress(address(11))]: { index: 1, amount: '250000' },
+    [getAddress(address(12))]: { index: 2, amount: '3000000' },
+  };
+  const claimed: PayoutClaim = {
+    index: 1,
+    payee: getAddress(address(11)),
+    amount: '250000',
+    txHash: `0x${'1'.repeat(64)}`,
+    blockNumber: 10,
+  };
+
+  it('marks the payees whose index has been claimed', () => {
+    const grantRoundPayout = toGrantRoundPayout(grantRound, payout, payees, { 1: claimed });
+
+    expect(grantRoundPayout.payees[getAddress(address(11))]).to.deep.equal({ index: 1, amount: 0.25, claimed: true });
+    expect(grantRoundPayout.payees[getAddress(address(10))]).to.deep.equal({ index: 0, amount: 1.5, claimed: false });
+    expect(grantRoundPayout.claims).to.deep.equal({ 1: claimed });
+  });
+
+  it('totals the claimed and unclaimed amounts in the matching token', () => {
+    const grantRoundPayout = toGrantRoundPayout(grantRound, payout, payees, { 1: claimed });
+
+    expect(grantRoundPayout.totalClaimed).to.equal(0.25);
+    expect(grantRoundPayout.totalUnclaimed).to.equal(4.5);
+    expect(toGrantRoundPayout(grantRound, payout, payees, {}).totalClaimed).to.equal(0);
+  });
+
+  it('finds a payees status by their address in any case', () => {
+    const grantRoundPayout = toGrantRoundPayout(grantRound, payout, payees, { 1: claimed });
+
+    expect(getPayeeStatus(grantRoundPayout, address(11))?.claimed).to.be.true;
+    expect(getPayeeStatus(grantRoundPayout, address(13))).to.be.undefined;
+    expect(getPayeeStatus(undefined, address(11))).to.be.undefined;
+  });
+});
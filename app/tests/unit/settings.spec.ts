@@ -0,0 +1,28 @@
+import { expect } from 'chai';
+import { isValidSlippageTolerance, isValidTransactionDeadline } from 'src/store/settings';
+
+describe('settings', () => {
+  describe('isValidSlippageTolerance', () => {
+    it('accepts a percent above 0 and below 50', () => {
+      [0.01, 0.5, 1, 49.99].forEach((percent) => expect(isValidSlippageTolerance(percent), String(percent)).to.be.true);
+    });
+
+    it('rejects anything else', () => {
+      [0, -1, 50, 100, NaN].forEach(
+        (percent) => expect(isValidSlippageTolerance(percent), String(percent)).to.be.false
+      );
+    });
+  });
+
+  describe('isValidTransactionDeadline', () => {
+    it('accepts whole minutes up to a day', () => {
+      [1, 20, 24 * 60].forEach((minutes) => expect(isValidTransactionDeadline(minutes), String(minutes)).to.be.true);
+    });
+
+    it('rejects anything else', () => {
+      [0, -5, 2.5, 24 * 60 + 1, NaN].forEach(
+        (minutes) => expect(isValidTransactionDeadline(minutes), String(minutes)).to.be.false
+      );
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import { encodeV2Path, encodeV3Path, getAmountOutMin, Hop } from 'src/utils/swaps';
+import { BigNumber, parseUnits } from 'src/utils/ethers';
+
+// a distinct (lowercase) token address for each n
+const token = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+
+describe('swaps', () => {
+  // token 1 -> token 2 (0.3% pool) -> token 3 (0.05% pool)
+  const hops: Hop[] = [
+    { tokenIn: token(1), tokenOut: token(2), fee: 3000 },
+    { tokenIn: token(2), tokenOut: token(3), fee: 500 },
+  ];
+
+  describe('encodeV2Path', () => {
+    it('lists every token the route passes through', () => {
+      expect(encodeV2Path(hops)).to.deep.equal([token(1), token(2), token(3)]);
+      expect(encodeV2Path(hops.slice(0, 1))).to.deep.equal([token(1), token(2)]);
+    });
+
+    it('is just the output token when no swap is required', () => {
+      expect(encodeV2Path([], token(3))).to.deep.equal([token(3)]);
+    });
+  });
+
+  describe('encodeV3Path', () => {
+    it('interleaves the tokens with the fee of the pool between them', () => {
+      const expected = `0x${token(1).slice(2)}000bb8${token(2).slice(2)}0001f4${token(3).slice(2)}`;
+
+      expect(encodeV3Path(hops)).to.equal(expected);
+    });
+
+    it('is just the output token when no swap is required', () => {
+      expect(encodeV3Path([], token(3))).to.equal(token(3));
+    });
+  });
+
+  describe('getAmountOutMin', () => {
+    it('allows the output to fall by the slippage tolerance in basis points', () => {
+      const amountOut = parseUnits('100', 18);
+
+      expect(getAmountOutMin(amountOut, 0.5)).to.deep.equal(parseUnits('99.5', 18));
+      expect(getAmountOutMin(amountOut, 1)).to.deep.equal(parseUnits('99', 18));
+      expect(getAmountOutMin(amountOut, 0.01)).to.deep.equal(parseUnits('99.99', 18));
+    });
+
+    it('rounds the tolerance to a whole basis point', () => {
+      // 0.123% is 12.3bps, applied as 12bps
+      expect(getAmountOutMin(BigNumber.from(10000), 0.123)).to.deep.equal(BigNumber.from(9988));
+    });
+
+    it('rounds the minimum down to a whole unit', () => {
+      expect(getAmountOutMin(BigNumber.from(999), 0.5)).to.deep.equal(BigNumber.from(994));
+    });
+  });
+});
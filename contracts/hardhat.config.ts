@@ -4,6 +4,7 @@ import 'hardhat-gas-reporter';
 import 'solidity-coverage';
 
 import './tasks/accounts';
+import './tasks/batch-claim';
 import './tasks/clean';
 
 import { resolve } from 'path';
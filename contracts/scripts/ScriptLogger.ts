@@ -62,6 +62,19 @@ export class ScriptLogger {
     this.actions[name] = content;
   }
 
+  // restores the contracts and actions saved by the last run, so that a script can skip the steps it already completed
+  resume(): boolean {
+    if (!fs.existsSync(this.latestFileName)) return false;
+
+    const previousOutput = JSON.parse(fs.readFileSync(this.latestFileName, 'utf8'));
+    this.contracts = previousOutput.contracts || {};
+    this.actions = previousOutput.actions || {};
+    // the error which stopped the last run is recorded again if it recurs
+    delete this.actions['Error'];
+
+    return true;
+  }
+
   save(): void {
     // conditionally create the deploy history folder
     fs.mkdir(this.folderName, (err) => {
@@ -0,0 +1,50 @@
+import { MatchingAlgorithm } from '@dgrants/types';
+
+type NetworkParams = {
+  roundAddress: string; // can be overridden with the ROUND_ADDRESS env var
+  grantRegistry: string;
+  grantRoundManager: string;
+  ipfsRetrievalEndpoint: string;
+  matchingAlgorithm?: MatchingAlgorithm; // this should match the matchingAlgorithm in the round metadata (defaults to linear)
+  trustBonusMetaPtr: string; // CID of the trust bonus scores the payout is calculated with (must be pinned)
+  fromBlock?: number; // block the round was created in (saves searching from genesis)
+  subgraphUrl?: string;
+  dustThreshold?: number; // payouts below this amount (in the matching token) are left out of the tree
+  // payoutGrants moves the rounds whole balance, so this address is paid everything the tree leaves out: the dust,
+  // the rounding remainders and any of the pot that was never allocated (eg. when every grant is held at the matchCap)
+  remainderAddress: string;
+};
+
+type PayoutParams = Record<string, NetworkParams>;
+
+const params: PayoutParams = {
+  localhost: {
+    // expected addresses using deploy-poc.ts w/ hardhat default account
+    roundAddress: '0x851248dBF29D723f3A12EA9739A9D1c88d1c7faa',
+    grantRegistry: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    grantRoundManager: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    ipfsRetrievalEndpoint: 'https://ipfs-dev.fleek.co/ipfs',
+    trustBonusMetaPtr: '', // must be set before paying out
+    remainderAddress: '', // must be set before paying out
+  },
+  mainnet: {
+    roundAddress: '0x0000000000000000000000000000000000000000',
+    grantRegistry: '0xd0F350b13465B5251bb03E4bbf9Fa1DbC4a378F3',
+    grantRoundManager: '0xB40a90fdB0163cA5C82D1959dB7e56B50A0dC016',
+    ipfsRetrievalEndpoint: 'https://ipfs-dev.fleek.co/ipfs',
+    trustBonusMetaPtr: '', // must be set before paying out
+    remainderAddress: '', // must be set before paying out
+    fromBlock: 13186294,
+  },
+  rinkeby: {
+    roundAddress: '0xa287E6E74F4bB2408C36cb0a062e72300cBEc2E9',
+    grantRegistry: '0x7e13B0251f0F92C98bB5E9cAeABb9A91ccf13655',
+    grantRoundManager: '0xa1f0230045eAb2D2F2c4ef1B7bD53330Bd41f862',
+    ipfsRetrievalEndpoint: 'https://ipfs-dev.fleek.co/ipfs',
+    trustBonusMetaPtr: '', // must be set before paying out
+    remainderAddress: '', // must be set before paying out
+    fromBlock: 9306030,
+  },
+};
+
+export default params;
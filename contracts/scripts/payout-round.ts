@@ -0,0 +1,255 @@
+import fs from 'fs';
+import hre from 'hardhat';
+import { TokenInfo } from '@uniswap/token-lists';
+import { GrantRoundContributions } from '@dgrants/types';
+import {
+  createBundle,
+  fetch,
+  FinalizationBundle,
+  getTrustBonusScores,
+  IpfsTrustScoreProvider,
+  publishBundle,
+} from '@dgrants/dcurve';
+import { BigNumber } from '@ethersproject/bignumber';
+import { ScriptLogger } from './ScriptLogger';
+import params from './config/payout-round.config';
+import { GrantRound, MerkleGrantRoundPayout } from '../typechain';
+
+const { ethers } = hre;
+
+// how often to check whether the round has ended
+const END_TIME_POLL_INTERVAL = 60 * 1000;
+
+// outputs kept next to the deploy history, so a resumed run uses exactly the same data
+type PayoutHistory = {
+  contributions: GrantRoundContributions;
+  bundle: FinalizationBundle;
+};
+
+// IIFE async function so "await"s can be performed for each operation
+(async function () {
+  const network = hre.network.name;
+
+  // Read configuration parameters for the current network
+  const networkParams = params[network];
+  if (!networkParams) {
+    throw new Error(`Invalid network ${network}`);
+  }
+  const roundAddress = ethers.utils.getAddress(process.env.ROUND_ADDRESS || networkParams.roundAddress);
+
+  // Everything the payout depends on must be pinned before any funds are moved
+  if (!ethers.utils.isAddress(networkParams.remainderAddress)) {
+    throw new Error(`Invalid remainderAddress for ${network}: ${networkParams.remainderAddress}`);
+  }
+  if (!networkParams.trustBonusMetaPtr) {
+    throw new Error(`Set the trustBonusMetaPtr for ${network} to the CID of the trust bonus scores`);
+  }
+  const fleekApiKey = process.env.FLEEK_STORAGE_API_KEY;
+  if (!fleekApiKey) {
+    throw new Error('Set FLEEK_STORAGE_API_KEY to publish the finalization bundle');
+  }
+
+  // Each round keeps its own history, so rerunning the script picks up from the last completed step
+  const logger = new ScriptLogger(`payout-round-${roundAddress}`, network);
+  if (logger.resume()) {
+    console.log(`Resuming the payout of ${roundAddress} from ${logger.latestFileName}`);
+  }
+  logger.config = { ...networkParams, roundAddress };
+
+  try {
+    // Get the deployer address
+    const [deployer] = await ethers.getSigners();
+    logger.deployer = deployer.address;
+
+    // Confirm deployer matches payoutAdmin for round, otherwise payoutGrants will fail
+    const round = <GrantRound>await ethers.getContractAt('GrantRound', roundAddress);
+    const payoutAdmin = await round.payoutAdmin();
+
+    if (deployer.address !== payoutAdmin) {
+      throw new Error(`Deployer (${deployer.address}) is not payoutAdmin (${payoutAdmin})`);
+    }
+
+    // 1. Wait for the round to end (no contributions or matching funds can be added after the endTime)
+    const endTime = (await round.endTime()).toNumber();
+    let { timestamp } = await ethers.provider.getBlock('latest');
+    while (timestamp < endTime) {
+      console.log(`Waiting for the round to end at ${new Date(endTime * 1000).toISOString()}`);
+      await new Promise((resolve) => setTimeout(resolve, END_TIME_POLL_INTERVAL));
+      ({ timestamp } = await ethers.provider.getBlock('latest'));
+    }
+
+    // 2. Fetch the contributions made during the round
+    let contributions: GrantRoundContributions;
+    if (logger.actions['FetchContributions']) {
+      contributions = readHistory(logger.actions['FetchContributions'], 'contributions');
+    } else {
+      contributions = await fetch({
+        provider: ethers.provider,
+        grantRound: roundAddress,
+        grantRegistry: networkParams.grantRegistry,
+        grantRoundManager: networkParams.grantRoundManager,
+        supportedTokens: await getRoundTokens(round, networkParams.grantRoundManager),
+        fromBlock: networkParams.fromBlock,
+        subgraphUrl: networkParams.subgraphUrl,
+      });
+      logger.recordAction('FetchContributions', writeHistory(logger, 'contributions', contributions));
+      logger.save();
+    }
+
+    // 3. Calculate the distribution and its merkle tree into a finalization bundle
+    let bundle: FinalizationBundle;
+    if (logger.actions['CalculateDistribution']) {
+      bundle = readHistory(logger.actions['CalculateDistribution'], 'bundle');
+    } else {
+      // resolve the trust bonus scores for every contributor from the pinned document (throws if it can't be read)
+      const { trustBonusScores, trustBonusMetaPtr } = await getTrustBonusScores(
+        new IpfsTrustScoreProvider(networkParams.trustBonusMetaPtr, networkParams.ipfsRetrievalEndpoint),
+        Array.from(new Set(contributions.contributions.map(({ address }) => address)))
+      );
+      bundle = await createBundle({
+        grantRoundContributions: contributions,
+        matchingAlgorithm: networkParams.matchingAlgorithm,
+        trustBonusScores: trustBonusScores,
+        trustBonusMetaPtr: trustBonusMetaPtr,
+        dustThreshold: networkParams.dustThreshold,
+        remainderAddress: ethers.utils.getAddress(networkParams.remainderAddress),
+      });
+      logger.recordAction('CalculateDistribution', writeHistory(logger, 'bundle', bundle));
+      logger.save();
+    }
+    const { distribution, merkle } = bundle;
+
+    // The payout contract has no way to return funds, so the tree must pay out the whole pot
+    const totalPotUnits = BigNumber.from(contributions.totalPotUnits || 0);
+    if (!BigNumber.from(merkle.tokenTotal).eq(totalPotUnits)) {
+      throw new Error(`The distribution pays out ${merkle.tokenTotal} of the ${totalPotUnits} in the pot`);
+    }
+
+    // Show the distribution and get confirmation from user before paying out
+    console.table(
+      distribution.payoutDistribution.map(({ address, grantIds, match, matchUnits }) => ({
+        address,
+        grantIds: grantIds.join(','),
+        match,
+        matchUnits,
+      }))
+    );
+    logger.config.merkleRoot = merkle.merkleRoot;
+    logger.config.totalPot = contributions.totalPot;
+    logger.config.totalPayout = merkle.tokenTotal;
+    await logger.confirmContinue();
+
+    // 4. Deploy the payout contract with the merkle root
+    let payout: MerkleGrantRoundPayout;
+    if (logger.contracts['MerkleGrantRoundPayout']) {
+      payout = <MerkleGrantRoundPayout>(
+        await ethers.getContractAt('MerkleGrantRoundPayout', logger.contracts['MerkleGrantRoundPayout'])
+      );
+    } else {
+      const MerkleGrantRoundPayout = await ethers.getContractFactory('MerkleGrantRoundPayout', deployer);
+      payout = <MerkleGrantRoundPayout>(
+        await MerkleGrantRoundPayout.deploy(contributions.matchingToken, merkle.merkleRoot)
+      );
+      await payout.deployed();
+      logger.recordContract('MerkleGrantRoundPayout', payout.address);
+      logger.save();
+    }
+
+    // A resumed run must pay into a contract for the same tree
+    const payoutRoot = await payout.merkleRoot();
+    if (payoutRoot.toLowerCase() !== merkle.merkleRoot.toLowerCase()) {
+      throw new Error(
+        `MerkleGrantRoundPayout root (${payoutRoot}) does not match the distribution (${merkle.merkleRoot})`
+      );
+    }
+
+    // 5. Move the matching pool into the payout contract
+    if (!logger.actions['PayoutGrants']) {
+      // the pot can't have changed since the contributions were fetched (eg. funds added before a resumed run)
+      const matchingToken = await ethers.getContractAt(
+        ['function balanceOf(address) view returns (uint256)'],
+        await round.matchingToken()
+      );
+      const balance = await matchingToken.balanceOf(round.address);
+      if (!balance.eq(totalPotUnits)) {
+        throw new Error(`The round holds ${balance} but the distribution was calculated for ${totalPotUnits}`);
+      }
+
+      const payoutTx = await round.payoutGrants(payout.address);
+      await payoutTx.wait();
+      logger.recordAction('PayoutGrants', payoutTx.hash);
+      logger.save();
+    }
+
+    // 6. Publish the bundle so that payees can find their claims (the merkle tree is held as `merkle`) and anyone
+    // can recalculate it from the bundled contributions, scores, algorithm and rounding
+    if (!logger.actions['PublishPayoutDistribution']) {
+      const bundleCid = await publishBundle(bundle, fleekApiKey);
+      logger.recordAction('PublishPayoutDistribution', bundleCid);
+      logger.save();
+    }
+
+    // The round metadata should point at the payout for the app to show the claim page
+    logger.recordAction(
+      'PayoutMetadata',
+      JSON.stringify({
+        address: payout.address,
+        distributionMetaPtr: `${networkParams.ipfsRetrievalEndpoint}/${logger.actions['PublishPayoutDistribution']}`,
+      })
+    );
+  } catch (error) {
+    logger.recordAction('Error', error.toString());
+  }
+
+  logger.save();
+})();
+
+/**
+ * Reads the donation and matching tokens from the round in the shape dcurve expects
+ * @param round GrantRound
+ * @param grantRoundManager GrantRoundManager address
+ */
+async function getRoundTokens(round: GrantRound, grantRoundManager: string) {
+  const roundManager = await ethers.getContractAt('GrantRoundManager', grantRoundManager);
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const tokens: Record<string, TokenInfo> = {};
+  for (const address of [await round.matchingToken(), await roundManager.donationToken()]) {
+    const token = await ethers.getContractAt(
+      ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'],
+      address
+    );
+    const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()]);
+    tokens[ethers.utils.getAddress(address)] = { chainId, address, decimals, symbol, name: symbol };
+  }
+
+  return tokens;
+}
+
+/**
+ * Writes a step's output next to the deploy history, so a resumed run uses exactly the same data
+ * @param logger ScriptLogger for the run
+ * @param name name of the output
+ * @param content output to save as JSON
+ * @returns path of the file written
+ */
+function writeHistory<K extends keyof PayoutHistory>(logger: ScriptLogger, name: K, content: PayoutHistory[K]) {
+  const fileName = `${logger.folderName}/${logger.deployName}-${logger.network}-${name}.json`;
+  fs.mkdirSync(logger.folderName, { recursive: true });
+  fs.writeFileSync(fileName, JSON.stringify(content));
+
+  return fileName;
+}
+
+/**
+ * Reads a step's output saved with `writeHistory`
+ * @param fileName path of the file
+ * @param name name of the output (types the result)
+ */
+function readHistory<K extends keyof PayoutHistory>(fileName: string, name: K): PayoutHistory[K] {
+  if (!fileName.endsWith(`-${name}.json`)) {
+    throw new Error(`${fileName} does not hold the ${name}`);
+  }
+
+  return JSON.parse(fs.readFileSync(fileName, 'utf8'));
+}
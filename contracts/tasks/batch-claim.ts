@@ -0,0 +1,141 @@
+import fs from 'fs';
+import { BigNumber } from '@ethersproject/bignumber';
+import { task, types } from 'hardhat/config';
+
+import { MerkleGrantRoundPayout } from '../typechain';
+import { TASK_BATCH_CLAIM } from './task-names';
+
+// gas each batchClaim transaction is kept under by default
+const DEFAULT_MAX_GAS = 5_000_000;
+
+// number of hasClaimed calls to make at once
+const HAS_CLAIMED_PAGE_SIZE = 100;
+
+type Claim = {
+  index: number;
+  payee: string;
+  amount: BigNumber;
+  merkleProof: string[];
+};
+
+// claims submitted in one batchClaim transaction, with their summed gas estimates
+type Batch = { claims: Claim[]; gas: BigNumber };
+
+type PublishedClaims = Record<string, { index: number; amount: string; proof: string[] }>;
+
+task(TASK_BATCH_CLAIM, 'Claims every unclaimed payout on behalf of the payees')
+  .addParam('payout', 'Address of the MerkleGrantRoundPayout')
+  .addParam('distribution', 'Path to the merkle distribution (or a distribution/bundle holding it as `merkle`)')
+  .addOptionalParam('maxGas', 'Max gas used by each batchClaim transaction', DEFAULT_MAX_GAS, types.int)
+  .addFlag('dryRun', 'Print the batches without submitting them')
+  .setAction(async ({ payout: payoutAddress, distribution, maxGas, dryRun }, hre) => {
+    const payout = <MerkleGrantRoundPayout>await hre.ethers.getContractAt('MerkleGrantRoundPayout', payoutAddress);
+
+    // read the claims from the published tree
+    const published = JSON.parse(fs.readFileSync(distribution, 'utf8'));
+    const merkle = published.merkle || published;
+    const onChainRoot = await payout.merkleRoot();
+    if (onChainRoot.toLowerCase() !== String(merkle.merkleRoot).toLowerCase()) {
+      throw new Error(`The distribution's root (${merkle.merkleRoot}) does not match the payout's (${onChainRoot})`);
+    }
+    const publishedClaims = <PublishedClaims>merkle.claims;
+    const claims: Claim[] = Object.keys(publishedClaims)
+      .map((payee) => ({
+        index: publishedClaims[payee].index,
+        payee,
+        amount: BigNumber.from(publishedClaims[payee].amount),
+        merkleProof: publishedClaims[payee].proof,
+      }))
+      .sort((a, b) => a.index - b.index);
+
+    // find the claims which haven't been made yet
+    const unclaimed: Claim[] = [];
+    for (let i = 0; i < claims.length; i += HAS_CLAIMED_PAGE_SIZE) {
+      const page = claims.slice(i, i + HAS_CLAIMED_PAGE_SIZE);
+      const hasClaimed = await Promise.all(page.map((claim) => payout.hasClaimed(claim.index)));
+      unclaimed.push(...page.filter((_claim, index) => !hasClaimed[index]));
+    }
+    console.log(`${claims.length - unclaimed.length} of ${claims.length} payouts have already been claimed`);
+
+    // estimate each claim on its own (a claim which reverts is left out rather than failing its whole batch)
+    const estimates: { claim: Claim; gas: BigNumber }[] = [];
+    const failed: { claim: Claim; reason: string }[] = [];
+    for (const claim of unclaimed) {
+      try {
+        estimates.push({ claim, gas: await payout.estimateGas.claim(claim) });
+      } catch (error) {
+        failed.push({ claim, reason: error.reason || error.message });
+      }
+    }
+
+    // pack the claims into batches under maxGas
+    const { batches, oversized } = packBatches(estimates, maxGas);
+    failed.push(...oversized.map((claim) => ({ claim, reason: `needs more than ${maxGas} gas` })));
+
+    // submit each batch (or just show them)
+    const summary = [];
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+      const amount = batch.claims.reduce((total, claim) => total.add(claim.amount), BigNumber.from(0));
+      const row = {
+        batch: i,
+        claims: batch.claims.length,
+        indexes: `${batch.claims[0].index}..${batch.claims[batch.claims.length - 1].index}`,
+        amount: amount.toString(),
+        estimatedGas: batch.gas.toString(),
+        tx: dryRun ? 'dry run' : '',
+        gasUsed: '',
+      };
+      if (!dryRun) {
+        const tx = await payout.batchClaim(batch.claims, { gasLimit: batch.gas });
+        const receipt = await tx.wait();
+        row.tx = tx.hash;
+        row.gasUsed = receipt.gasUsed.toString();
+      }
+      summary.push(row);
+    }
+
+    console.table(summary);
+    if (failed.length) {
+      console.log(`${failed.length} claims were skipped:`);
+      console.table(failed.map(({ claim, reason }) => ({ index: claim.index, payee: claim.payee, reason })));
+    }
+    const pushed = batches.reduce((count, batch) => count + batch.claims.length, 0);
+    const total = batches.reduce(
+      (sum, batch) => batch.claims.reduce((batchSum, claim) => batchSum.add(claim.amount), sum),
+      BigNumber.from(0)
+    );
+    console.log(
+      `${dryRun ? 'Would push' : 'Pushed'} ${pushed} claims totalling ${total} in ${batches.length} transactions`
+    );
+  });
+
+/**
+ * Packs the claims, in order, into batches whose summed gas estimates stay under maxGas (each estimate includes the
+ * base transaction cost, so the sums are an overestimate of what the batch will use)
+ * @param estimates each claim with the gas claiming it on its own is estimated to use
+ * @param maxGas gas each batch is kept under
+ * @returns the batches, and the claims which need more than maxGas on their own
+ */
+export function packBatches(
+  estimates: { claim: Claim; gas: BigNumber }[],
+  maxGas: number
+): { batches: Batch[]; oversized: Claim[] } {
+  const batches: Batch[] = [];
+  const oversized: Claim[] = [];
+  for (const { claim, gas } of estimates) {
+    if (gas.gt(maxGas)) {
+      oversized.push(claim);
+      continue;
+    }
+    const batch = batches[batches.length - 1];
+    if (batch && batch.gas.add(gas).lte(maxGas)) {
+      batch.claims.push(claim);
+      batch.gas = batch.gas.add(gas);
+    } else {
+      batches.push({ claims: [claim], gas });
+    }
+  }
+
+  return { batches, oversized };
+}
@@ -1 +1,2 @@
 export const TASK_ACCOUNTS: string = 'accounts';
+export const TASK_BATCH_CLAIM: string = 'batch-claim';
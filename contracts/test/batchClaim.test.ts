@@ -0,0 +1,41 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+
+// --- Our imports ---
+import { packBatches } from '../tasks/batch-claim';
+
+// --- Parse and define helpers ---
+const claim = (index: number) => ({
+  index,
+  payee: `0x${(index + 1).toString(16).padStart(40, '0')}`,
+  amount: BigNumber.from(100 + index),
+  merkleProof: [],
+});
+const estimate = (index: number, gas: number) => ({ claim: claim(index), gas: BigNumber.from(gas) });
+
+describe('batch-claim', function () {
+  describe('packBatches', () => {
+    it('fills each batch up to maxGas in order', async () => {
+      const { batches, oversized } = packBatches(
+        [estimate(0, 40), estimate(1, 40), estimate(2, 20), estimate(3, 50), estimate(4, 60)],
+        100
+      );
+
+      expect(batches.map((batch) => batch.claims.map(({ index }) => index))).to.deep.equal([[0, 1, 2], [3], [4]]);
+      expect(batches.map((batch) => batch.gas.toNumber())).to.deep.equal([100, 50, 60]);
+      expect(oversized).to.be.empty;
+    });
+
+    it('leaves out claims which need more than maxGas on their own', async () => {
+      const { batches, oversized } = packBatches([estimate(0, 40), estimate(1, 101), estimate(2, 40)], 100);
+
+      expect(batches.map((batch) => batch.claims.map(({ index }) => index))).to.deep.equal([[0, 2]]);
+      expect(oversized.map(({ index }) => index)).to.deep.equal([1]);
+    });
+
+    it('makes no batches without any claims', async () => {
+      expect(packBatches([], 100)).to.deep.equal({ batches: [], oversized: [] });
+    });
+  });
+});
@@ -6,10 +6,20 @@ module.exports = {
   },
   overrides: [
     {
-      files: ['**/__tests__/*.{j,t}s?(x)', '**/tests/unit/**/*.spec.{j,t}s?(x)'],
+      files: ['**/__tests__/*.{j,t}s?(x)', '**/tests/unit/**/*.spec.{j,t}s?(x)', 'tests/**/*.test.ts'],
       env: {
         mocha: true,
       },
     },
+    {
+      // the CLI entry point is plain commonjs outside of the typescript project
+      files: ['bin/*.js'],
+      parserOptions: {
+        project: null,
+      },
+      rules: {
+        '@typescript-eslint/unbound-method': 'off',
+      },
+    },
   ],
 };
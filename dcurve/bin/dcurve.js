@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+'use strict';
+
+// run the typescript sources directly
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+require('../src/cli')
+  .main(process.argv.slice(2))
+  .catch((err) => {
+    console.error(err.message || err);
+    process.exit(1);
+  });
@@ -0,0 +1,572 @@
+'use strict';
+
+import { readFileSync, writeFileSync } from 'fs';
+import { Contract } from 'ethers';
+import { fetchJson, getAddress } from 'ethers/lib/utils';
+import { JsonRpcProvider } from '@ethersproject/providers';
+import { TokenInfo } from '@uniswap/token-lists';
+import { GrantRoundContributions, MatchingAlgorithm } from '@dgrants/types';
+import { retrievalEndpoint } from '@dgrants/utils/src/ipfs';
+import {
+  CLR,
+  fetch,
+  getMerkleRoot,
+  getMerkleProof,
+  getTokenMerkleProof,
+  GitcoinTrustScoreProvider,
+  StaticTrustScoreProvider,
+  IpfsTrustScoreProvider,
+  ConstantTrustScoreProvider,
+  getTrustBonusScores,
+  multiplyWeighting,
+  capWeighting,
+  thresholdWeighting,
+  formatReport,
+  DEFAULT_PREDICTION_AXIS,
+  getMatchingAlgorithmOptions,
+  resolveMatchingAlgorithm,
+  createBundle,
+  publishBundle,
+  verifyBundle,
+} from './index';
+import {
+  AlgorithmParams,
+  GrantsDistribution,
+  InitArgs,
+  MultiTokenDistribution,
+  ReportFormat,
+  TrustScoreProvider,
+  TrustWeighting,
+} from './types';
+
+// parsed command line flags (--flag value / --flag)
+type Flags = Record<string, string | boolean>;
+
+const USAGE = `Usage: dcurve <command> [options]
+
+Commands:
+  fetch       fetch the contributions made to a round
+                --rpc <url> --round <address> --manager <address> --registry <address>
+                [--tokens <tokenlist.json>] [--from-block <n>] [--to-block <n>] [--batch <blocks>] [--subgraph <url>]
+  calculate   calculate the distribution and payout merkle
+                --contributions <contributions.json> [--scores-out <scores.json>]
+                [--report <report.json|csv|md>] [--pools <pools.json>] (one tree paying out every MatchingPool)
+  predict     predict the match for a grant
+                --contributions <contributions.json> --grant-id <id> [--points 0,1,10,100,1000,10000]
+  verify      recalculate the distribution and diff it against a published merkle root
+                --contributions <contributions.json> --root <hash> [--published <distribution.json>]
+                [--published-scores <scores.json|csv>] [--published-contributions <contributions.json>]
+  proof       get the merkle proof for a payee
+                --distribution <distribution.json> --address <address> [--token <address>] (for --pools trees)
+  bundle      finalize the round into a bundle anyone can reproduce the merkle root from
+                --contributions <contributions.json> [--publish] (uploads with $FLEEK_STORAGE_API_KEY)
+  verify-bundle
+              recalculate the merkle root from a finalization bundle
+                --bundle <bundle.json> | --cid <cid> [--gateway <url>]
+                [--contributions <contributions.json>] (check a fresh snapshot against the bundled one)
+
+Calculation options (calculate, predict, verify & bundle, --weighting can't be bundled):
+  --algo <name[@version]>       registered matching algorithm, eg. linear, pairwise or capped-linear
+                                (default: the rounds matchingAlgorithm, otherwise linear)
+  --round-metadata <file>       read the matchingAlgorithm from the rounds metadata
+  --round-meta-ptr <cid>        read the matchingAlgorithm from the rounds metadata on IPFS
+  --scores <scores.json|csv>    trust bonus scores to use
+  --trust-meta-ptr <cid>        resolve the trust bonus scores from IPFS
+  --constant-score <n>          give every contributor the same trust bonus score
+  --default-score <n>           score for contributors without one (default: 0.5)
+  --weighting <multiply|cap:<max>|threshold:<min>>
+  --fixed-point                 calculate in the matching tokens smallest unit
+  --match-cap <share>           max share of the pot any single grant can receive
+  --pairwise-threshold <n>      coordination threshold used by pairwise
+  --dust-threshold <n>          leave payees due less than this (in the matching token) out of the payouts
+  --remainder-address <address> pay the rest of the pot (dust and unallocated units) to this address
+                                (--default-score, --fixed-point, --match-cap and --pairwise-threshold override
+                                the algorithms params)
+
+  --out <file>                  write the result to a file instead of stdout
+`;
+
+/**
+ * Entry point for the `dcurve` binary
+ *
+ * @param argv process.argv without the node and script paths
+ */
+export const main = async (argv: string[]) => {
+  const { command, flags } = parseArgs(argv);
+
+  switch (command) {
+    case 'fetch':
+      return output(flags, await fetchCommand(flags));
+    case 'calculate':
+      return output(flags, await calculateCommand(flags));
+    case 'predict':
+      return output(flags, await predictCommand(flags));
+    case 'verify':
+      return output(flags, await verifyCommand(flags));
+    case 'proof':
+      return output(flags, proofCommand(flags));
+    case 'bundle':
+      return output(flags, await bundleCommand(flags));
+    case 'verify-bundle':
+      return output(flags, await verifyBundleCommand(flags));
+    default:
+      console.log(USAGE);
+      if (command && command !== 'help') throw new Error(`Unknown command: ${command}`);
+  }
+};
+
+// --------- COMMANDS
+
+/**
+ * Fetches the rounds contributions (GrantRoundContributions)
+ *
+ * @param flags
+ */
+const fetchCommand = async (flags: Flags) => {
+  const provider = new JsonRpcProvider(required(flags, 'rpc'));
+  const grantRound = getAddress(required(flags, 'round'));
+  const grantRoundManager = getAddress(required(flags, 'manager'));
+
+  return fetch({
+    provider: provider,
+    grantRound: grantRound,
+    grantRoundManager: grantRoundManager,
+    grantRegistry: getAddress(required(flags, 'registry')),
+    supportedTokens: flags.tokens
+      ? getTokensMapping(readJson(String(flags.tokens)))
+      : await getRoundTokensMapping(provider, grantRound, grantRoundManager),
+    fromBlock: optionalNumber(flags, 'from-block'),
+    toBlock: optionalNumber(flags, 'to-block'),
+    blockBatchSize: optionalNumber(flags, 'batch'),
+    subgraphUrl: flags.subgraph ? String(flags.subgraph) : undefined,
+  });
+};
+
+/**
+ * Calculates the distribution (including the payout merkle)
+ *
+ * @param flags
+ */
+const calculateCommand = async (flags: Flags) => {
+  const grantRoundContributions: GrantRoundContributions = readJson(required(flags, 'contributions'));
+  const { clr } = await getCLR(flags, grantRoundContributions);
+
+  // rounds funded by several pools pay every token from one tree
+  if (flags.pools) return clr.calculateMultiToken(grantRoundContributions, readJson(String(flags.pools)));
+
+  const distribution = await clr.calculate(grantRoundContributions, { includeReport: !!flags.report });
+
+  // write the report on its own (the format is picked from the file extension)
+  if (distribution.report) {
+    let format: ReportFormat = 'json';
+    if (/\.md$/i.test(String(flags.report))) format = 'markdown';
+    if (/\.csv$/i.test(String(flags.report))) format = 'csv';
+    writeFileSync(String(flags.report), formatReport(distribution.report, format));
+    delete distribution.report;
+  }
+
+  return distribution;
+};
+
+/**
+ * Predicts the match for a grant at each of the prediction points
+ *
+ * @param flags
+ */
+const predictCommand = async (flags: Flags) => {
+  const grantRoundContributions: GrantRoundContributions = readJson(required(flags, 'contributions'));
+  const { clr, trustBonusScores } = await getCLR(flags, grantRoundContributions);
+
+  return clr.predict({
+    grantId: Number(required(flags, 'grant-id')),
+    predictionPoints: String(flags.points || DEFAULT_PREDICTION_AXIS.join(','))
+      .split(',')
+      .map((point) => Number(point)),
+    grantRoundContributions: grantRoundContributions,
+    trustBonusScores: trustBonusScores,
+  });
+};
+
+/**
+ * Recalculates the distribution and diffs it against the published root (and anything else published alongside it),
+ * exits with 1 when they differ
+ *
+ * @param flags
+ */
+const verifyCommand = async (flags: Flags) => {
+  const grantRoundContributions: GrantRoundContributions = readJson(required(flags, 'contributions'));
+  const { clr } = await getCLR(flags, grantRoundContributions);
+
+  // the published scores are compared against the ones we calculate with
+  const addresses = grantRoundContributions.contributions.map((contribution) => contribution.address);
+  const publishedScores = flags['published-scores']
+    ? await new StaticTrustScoreProvider(readFileSync(String(flags['published-scores']), 'utf8')).getScores(addresses)
+    : undefined;
+  const publishedContributions: GrantRoundContributions | undefined = flags['published-contributions']
+    ? readJson(String(flags['published-contributions']))
+    : undefined;
+
+  // recalculate the distribution and diff it
+  const { distribution, ...result } = await clr.verify(
+    grantRoundContributions,
+    flags['trust-meta-ptr'] ? String(flags['trust-meta-ptr']) : '',
+    required(flags, 'root'),
+    {
+      distribution: flags.published ? readJson(String(flags.published)) : undefined,
+      trustBonusScores: publishedScores,
+      contributions: publishedContributions?.contributions,
+    }
+  );
+
+  if (!result.verified) {
+    console.log(
+      `Distribution does NOT match\n  expected: ${result.hash}\n  calculated: ${
+        result.calculatedHash || distribution.merkleError
+      }`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`Distribution verified: ${result.hash}`);
+  }
+
+  return result;
+};
+
+/**
+ * Returns the payees claim (index, amount and proof) from a calculated distribution
+ *
+ * @param flags
+ */
+const proofCommand = (flags: Flags) => {
+  const address = getAddress(required(flags, 'address'));
+
+  // claims from a multi-token tree are made per token
+  if (flags.token) {
+    const distribution: MultiTokenDistribution = readJson(required(flags, 'distribution'));
+    const token = getAddress(String(flags.token));
+    const claim = distribution.merkle?.claims[address]?.[token];
+    if (!distribution.merkle || !claim) {
+      throw new Error(`${address} has nothing to claim in ${token} in this distribution`);
+    }
+
+    return {
+      address: address,
+      token: token,
+      index: claim.index,
+      amount: claim.amount,
+      proof: getTokenMerkleProof(address, token, distribution.merkle),
+      merkleRoot: distribution.merkle.merkleRoot,
+    };
+  }
+
+  const distribution: GrantsDistribution = readJson(required(flags, 'distribution'));
+
+  if (!distribution.merkle?.claims[address]) {
+    throw new Error(`${address} has nothing to claim in this distribution`);
+  }
+
+  return {
+    address: address,
+    index: distribution.merkle.claims[address].index,
+    amount: distribution.merkle.claims[address].amount,
+    proof: getMerkleProof(address, distribution.merkle),
+    merkleRoot: getMerkleRoot(distribution.merkle),
+  };
+};
+
+/**
+ * Finalizes the round into a FinalizationBundle (and optionally publishes it to IPFS)
+ *
+ * @param flags
+ */
+const bundleCommand = async (flags: Flags) => {
+  const grantRoundContributions: GrantRoundContributions = readJson(required(flags, 'contributions'));
+  // only the registered algorithms params are recorded in the bundle
+  if (flags.weighting) throw new Error('--weighting can not be reproduced from a bundle');
+
+  // pin the algorithm version and record the params as they will be calculated with
+  const { name, version, params } = resolveMatchingAlgorithm(await getMatchingAlgorithm(flags));
+  const matchingAlgorithm = {
+    name: name,
+    version: version,
+    params: Object.fromEntries(
+      Object.entries({ ...params, ...getParamOverrides(flags) }).filter(([, value]) => value !== undefined)
+    ) as Record<string, number | boolean>,
+  };
+
+  // resolve the scores for every contributor
+  const addresses = [...new Set(grantRoundContributions.contributions.map((contribution) => contribution.address))];
+  const { trustBonusScores, trustBonusMetaPtr } = await getTrustBonusScores(getTrustScoreProvider(flags), addresses);
+
+  const bundle = await createBundle({
+    grantRoundContributions: grantRoundContributions,
+    matchingAlgorithm: matchingAlgorithm,
+    trustBonusScores: trustBonusScores,
+    trustBonusMetaPtr: trustBonusMetaPtr,
+    dustThreshold: optionalNumber(flags, 'dust-threshold'),
+    remainderAddress: flags['remainder-address'] ? getAddress(String(flags['remainder-address'])) : undefined,
+  });
+
+  if (flags.publish) {
+    if (!process.env.FLEEK_STORAGE_API_KEY) throw new Error('Set FLEEK_STORAGE_API_KEY to publish the bundle');
+    const cid = await publishBundle(bundle, process.env.FLEEK_STORAGE_API_KEY);
+    console.log(`Bundle published: ${cid}`);
+  }
+
+  return bundle;
+};
+
+/**
+ * Recalculates the merkle root from a FinalizationBundle (read from --bundle or resolved from --cid),
+ * exits with 1 when it differs
+ *
+ * @param flags
+ */
+const verifyBundleCommand = async (flags: Flags) => {
+  const grantRoundContributions: GrantRoundContributions | undefined = flags.contributions
+    ? readJson(String(flags.contributions))
+    : undefined;
+
+  // recalculate from the bundle and diff it
+  const { distribution, bundle, ...result } = await verifyBundle(
+    flags.bundle ? readJson(String(flags.bundle)) : required(flags, 'cid'),
+    grantRoundContributions,
+    flags.gateway ? String(flags.gateway) : retrievalEndpoint
+  );
+
+  if (!result.verified) {
+    console.log(
+      `Bundle does NOT match\n  expected: ${result.hash}\n  calculated: ${
+        result.calculatedHash || distribution.merkleError
+      }`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`Bundle verified: ${result.hash} (${bundle.algorithm.name}@${bundle.algorithm.version})`);
+  }
+
+  return result;
+};
+
+// --------- HELPERS
+
+/**
+ * Builds a CLR instance from the calculation flags
+ *
+ * The trust bonus scores are resolved up front (and optionally written to --scores-out) so that the
+ * calculation never needs to upload them, pass the saved scores back in with --scores to reproduce the result.
+ *
+ * @param flags
+ * @param grantRoundContributions
+ */
+const getCLR = async (flags: Flags, grantRoundContributions: GrantRoundContributions) => {
+  // resolve the algorithm and its params (before fetching any scores, an unknown algorithm fails fast)
+  const algorithmOptions = getMatchingAlgorithmOptions(await getMatchingAlgorithm(flags));
+
+  // explicit flags override the algorithms params
+  const overrides = getParamOverrides(flags);
+
+  // resolve the scores for every contributor
+  const addresses = [...new Set(grantRoundContributions.contributions.map((contribution) => contribution.address))];
+  const { trustBonusScores, trustBonusMetaPtr } = await getTrustBonusScores(getTrustScoreProvider(flags), addresses);
+  if (flags['scores-out']) writeFileSync(String(flags['scores-out']), JSON.stringify(trustBonusScores, null, 2));
+
+  const clr = new CLR({
+    ...algorithmOptions,
+    ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+    includePayouts: true,
+    trustBonusScores: trustBonusScores,
+    trustBonusMetaPtr: trustBonusMetaPtr,
+    trustWeighting: getTrustWeighting(flags),
+    dustThreshold: optionalNumber(flags, 'dust-threshold'),
+    remainderAddress: flags['remainder-address'] ? getAddress(String(flags['remainder-address'])) : undefined,
+  } as InitArgs);
+
+  return { clr, trustBonusScores };
+};
+
+/**
+ * Reads the algorithm params set with --default-score, --fixed-point, --match-cap and --pairwise-threshold
+ *
+ * @param flags
+ * @returns AlgorithmParams (undefined for any which weren't set)
+ */
+const getParamOverrides = (flags: Flags): AlgorithmParams => {
+  return {
+    defaultTrustScore: optionalNumber(flags, 'default-score'),
+    fixedPoint: flags['fixed-point'] ? true : undefined,
+    matchCap: optionalNumber(flags, 'match-cap'),
+    pairwiseThreshold: optionalNumber(flags, 'pairwise-threshold'),
+  };
+};
+
+/**
+ * Reads the matchingAlgorithm from --algo, --round-metadata or --round-meta-ptr
+ *
+ * @param flags
+ * @returns MatchingAlgorithm (undefined to use the default)
+ */
+const getMatchingAlgorithm = async (flags: Flags): Promise<MatchingAlgorithm | undefined> => {
+  if (flags.algo) return String(flags.algo);
+  if (flags['round-metadata']) return readJson(String(flags['round-metadata'])).matchingAlgorithm;
+  if (flags['round-meta-ptr']) {
+    try {
+      return (await fetchJson(`${retrievalEndpoint}/${flags['round-meta-ptr']}`)).matchingAlgorithm;
+    } catch (err) {
+      throw new Error(
+        `Unable to resolve the round metadata from ${flags['round-meta-ptr']}: ${(err as Error).message}`
+      );
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Selects the trust score provider from --scores, --trust-meta-ptr or --constant-score (defaults to the gitcoin API)
+ *
+ * @param flags
+ */
+const getTrustScoreProvider = (flags: Flags): TrustScoreProvider => {
+  if (flags.scores) return new StaticTrustScoreProvider(readFileSync(String(flags.scores), 'utf8'));
+  if (flags['trust-meta-ptr']) return new IpfsTrustScoreProvider(String(flags['trust-meta-ptr']));
+  if (flags['constant-score'] !== undefined) return new ConstantTrustScoreProvider(Number(flags['constant-score']));
+
+  return new GitcoinTrustScoreProvider();
+};
+
+/**
+ * Parses --weighting into a TrustWeighting
+ *
+ * @param flags
+ */
+const getTrustWeighting = (flags: Flags): TrustWeighting | undefined => {
+  if (!flags.weighting) return undefined;
+
+  const [name, value] = String(flags.weighting).split(':');
+  switch (name) {
+    case 'multiply':
+      return multiplyWeighting();
+    case 'cap':
+      return capWeighting(Number(value));
+    case 'threshold':
+      return thresholdWeighting(Number(value));
+    default:
+      throw new Error(`Unknown weighting: ${flags.weighting}`);
+  }
+};
+
+/**
+ * Reads the decimals of the rounds matching and donation tokens from the chain
+ *
+ * @param provider
+ * @param grantRound
+ * @param grantRoundManager
+ * @returns address -> TokenInfo
+ */
+const getRoundTokensMapping = async (provider: JsonRpcProvider, grantRound: string, grantRoundManager: string) => {
+  const round = new Contract(grantRound, ['function matchingToken() view returns (address)'], provider);
+  const roundManager = new Contract(grantRoundManager, ['function donationToken() view returns (address)'], provider);
+  const tokens = await Promise.all([round.matchingToken(), roundManager.donationToken()]);
+  const { chainId } = await provider.getNetwork();
+
+  return getTokensMapping(
+    await Promise.all(
+      tokens.map(async (address: string) => {
+        const token = new Contract(
+          address,
+          ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'],
+          provider
+        );
+        const [decimals, symbol] = await Promise.all([token.decimals(), token.symbol()]);
+
+        return { chainId, address, decimals, symbol, name: symbol } as TokenInfo;
+      })
+    )
+  );
+};
+
+/**
+ * Indexes a token list (or a plain array of TokenInfo) by checksummed address
+ *
+ * @param tokens
+ * @returns address -> TokenInfo
+ */
+const getTokensMapping = (tokens: TokenInfo[] | { tokens: TokenInfo[] }) => {
+  return (Array.isArray(tokens) ? tokens : tokens.tokens).reduce((mapping, token) => {
+    mapping[getAddress(token.address)] = token;
+
+    return mapping;
+  }, {} as Record<string, TokenInfo>);
+};
+
+/**
+ * Splits argv into the command and its --flags
+ *
+ * @param argv
+ */
+const parseArgs = (argv: string[]) => {
+  const [command, ...rest] = argv;
+  const flags: Flags = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    if (!rest[i].startsWith('--')) throw new Error(`Unexpected argument: ${rest[i]}`);
+    // flags without a value are switches
+    const name = rest[i].slice(2);
+    flags[name] = rest[i + 1] === undefined || rest[i + 1].startsWith('--') ? true : rest[++i];
+  }
+
+  return { command, flags };
+};
+
+/**
+ * Returns the value of a flag which must be provided
+ *
+ * @param flags
+ * @param name
+ */
+const required = (flags: Flags, name: string) => {
+  if (typeof flags[name] !== 'string') throw new Error(`Missing required option --${name}`);
+
+  return flags[name] as string;
+};
+
+/**
+ * Returns the numeric value of a flag (undefined when it was not provided)
+ *
+ * @param flags
+ * @param name
+ */
+const optionalNumber = (flags: Flags, name: string) => {
+  if (flags[name] === undefined) return undefined;
+
+  const value = Number(flags[name]);
+  if (isNaN(value)) throw new Error(`--${name} must be a number`);
+
+  return value;
+};
+
+/**
+ * Reads and parses a JSON file
+ *
+ * @param path
+ */
+const readJson = (path: string) => {
+  return JSON.parse(readFileSync(path, 'utf8'));
+};
+
+/**
+ * Writes the result to --out or stdout
+ *
+ * @param flags
+ * @param result
+ */
+const output = (flags: Flags, result: unknown) => {
+  const json = JSON.stringify(result, null, 2);
+
+  if (flags.out) {
+    writeFileSync(String(flags.out), json);
+  } else {
+    console.log(json);
+  }
+};
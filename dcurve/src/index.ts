@@ -6,12 +6,81 @@ export { fetch } from './internal/fetch';
 
 // Calculation commands
 export { handle as linear } from './internal/calc/linear';
+export { handle as pairwise } from './internal/calc/pairwise';
+
+// Algorithm registry
+export {
+  DEFAULT_MATCHING_ALGORITHM,
+  registerAlgorithm,
+  getAlgorithm,
+  getAlgorithms,
+  resolveMatchingAlgorithm,
+  getMatchingAlgorithmOptions,
+} from './internal/registry';
+
+// Finalization bundles
+export { BUNDLE_VERSION, createBundle, publishBundle, fetchBundle, verifyBundle } from './internal/bundle';
+
+// Trust bonus score providers, resolution and weightings
+export {
+  GitcoinTrustScoreProvider,
+  StaticTrustScoreProvider,
+  IpfsTrustScoreProvider,
+  ConstantTrustScoreProvider,
+  getTrustBonusScores,
+  multiplyWeighting,
+  capWeighting,
+  thresholdWeighting,
+} from './internal/trust';
+
+// Distribution reports
+export { formatReport, reportToCsv, reportToJson, reportToMarkdown } from './internal/report';
 
 // Prediction helpers
-export { getPredictedMatchingForAmount } from './internal/utils';
+export {
+  DEFAULT_PREDICTION_AXIS,
+  getPredictionAxis,
+  getPredictedMatchingForAmount,
+  getOptimalAllocation,
+} from './internal/utils';
+
+// Payout rounding
+export { getRoundingOptions, roundPayouts } from './internal/rounding';
 
 // Hashing commands
-export { getMerkleRoot, getMerkleProof } from './internal/merkle';
+export { getMerkleRoot, getMerkleProof, getTokenMerkleProof, verifyTokenMerkleProof } from './internal/merkle';
 
 // export types
-export type { InitArgs, GrantsDistribution, GrantRoundFetchArgs } from './types';
+export type {
+  InitArgs,
+  AlgorithmDefinition,
+  AlgorithmParams,
+  ResolvedAlgorithm,
+  GrantsDistribution,
+  DistributionReport,
+  GrantReport,
+  ContributorReport,
+  ReportFormat,
+  PublishedDistribution,
+  VerificationResult,
+  GrantMatchDiff,
+  PayoutDiff,
+  TrustScoreDiff,
+  FinalizationBundle,
+  BundleArgs,
+  BundleVerificationResult,
+  MultiRoundDistribution,
+  MatchingPool,
+  MultiTokenDistribution,
+  PayoutAdjustment,
+  RoundedPayouts,
+  RoundingOptions,
+  TokenPayoutDistribution,
+  GrantRoundFetchArgs,
+  JointGrantPrediction,
+  JointPrediction,
+  JointPredictionArgs,
+  TrustBonusScore,
+  TrustScoreProvider,
+  TrustWeighting,
+} from './types';
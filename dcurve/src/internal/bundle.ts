@@ -0,0 +1,153 @@
+import { fetchJson } from 'ethers/lib/utils';
+import { GrantRoundContributions } from '@dgrants/types';
+import { createIpfs, retrievalEndpoint } from '@dgrants/utils/src/ipfs';
+import { BundleArgs, BundleVerificationResult, FinalizationBundle, RoundingOptions, TrustBonusScore } from '../types';
+import { CLR } from './clr';
+import { getMatchingAlgorithmOptions, resolveMatchingAlgorithm } from './registry';
+
+// version of the bundle format produced by `createBundle`
+export const BUNDLE_VERSION = 1;
+
+/**
+ * @notice Finalizes a round into a bundle which anyone can recalculate the merkle root from.
+ *
+ * The trust bonus scores (resolved by the caller, see `getTrustBonusScores`) are stored in the bundle along with the
+ * snapshot, the ignore lists, the resolved algorithm params and the rounding options, so that verifying the bundle
+ * never depends on the trust-bonus API or the chain.
+ *
+ * @param args BundleArgs
+ * @returns FinalizationBundle
+ */
+export const createBundle = async (args: BundleArgs): Promise<FinalizationBundle> => {
+  const grantRoundContributions = args.grantRoundContributions;
+  const algorithm = resolveMatchingAlgorithm(args.matchingAlgorithm);
+
+  // the bundle holds exactly the scores it was calculated with
+  const { trustBonusScores, trustBonusMetaPtr } = args;
+
+  // calculate the distribution with the merkle (the bundle is useless without a root)
+  const rounding = { dustThreshold: args.dustThreshold, remainderAddress: args.remainderAddress };
+  const clr = getCLR(algorithm, rounding, trustBonusScores);
+  const { merkle, merkleError, report, ...distribution } = await clr.calculate(grantRoundContributions, {
+    trustBonusMetaPtr: trustBonusMetaPtr,
+  });
+  if (!merkle) throw new Error(`Unable to finalize ${grantRoundContributions.grantRound}: ${merkleError}`);
+
+  return {
+    version: BUNDLE_VERSION,
+    grantRound: grantRoundContributions.grantRound,
+    createdAt: Math.floor(Date.now() / 1000),
+    fromBlock: grantRoundContributions.fromBlock,
+    toBlock: grantRoundContributions.toBlock,
+    ignore: grantRoundContributions.ignore || { contributionAddress: [], grants: [] },
+    contributions: grantRoundContributions,
+    trustBonusScores: trustBonusScores,
+    trustBonusMetaPtr: trustBonusMetaPtr,
+    algorithm: {
+      name: algorithm.name,
+      version: algorithm.version,
+      params: algorithm.params,
+    },
+    rounding: rounding,
+    distribution: distribution,
+    merkle: merkle,
+  };
+};
+
+/**
+ * Uploads the bundle to IPFS
+ *
+ * @param bundle FinalizationBundle
+ * @param fleekApiKey key for the Fleek IPFS API
+ * @returns CID of the bundle
+ */
+export const publishBundle = async (bundle: FinalizationBundle, fleekApiKey: string): Promise<string> => {
+  const ipfs = createIpfs(fleekApiKey);
+  const res = await ipfs.add(JSON.stringify(bundle));
+
+  return res.cid.toString();
+};
+
+/**
+ * Resolves a bundle published with `publishBundle`
+ *
+ * @param cid CID of the bundle
+ * @param gateway *optional* IPFS gateway to resolve the CID through
+ * @returns FinalizationBundle
+ */
+export const fetchBundle = async (cid: string, gateway: string = retrievalEndpoint): Promise<FinalizationBundle> => {
+  try {
+    return await fetchJson(`${gateway}/${cid}`);
+  } catch (err) {
+    throw new Error(`Unable to resolve the bundle from ${cid}: ${(err as Error).message}`);
+  }
+};
+
+/**
+ * @notice Recalculates the merkle root from a bundle (or the CID of one) and compares it against the bundled merkle.
+ *
+ * The recalculation only uses what is in the bundle: the algorithm is resolved from the registry at the pinned
+ * version with the bundled params and the contributors are scored from the bundled trust bonus scores. Pass
+ * `grantRoundContributions` (eg. fetched again over the bundles block range) to check the snapshot as well, any
+ * contributions which differ are listed in the result.
+ *
+ * @param bundleOrCid FinalizationBundle or the CID it was published at
+ * @param grantRoundContributions *optional* contributions to recalculate from (defaults to the bundled snapshot)
+ * @param gateway *optional* IPFS gateway to resolve the CID through
+ * @returns BundleVerificationResult
+ */
+export const verifyBundle = async (
+  bundleOrCid: FinalizationBundle | string,
+  grantRoundContributions?: GrantRoundContributions,
+  gateway: string = retrievalEndpoint
+): Promise<BundleVerificationResult> => {
+  const cid = typeof bundleOrCid === 'string' ? bundleOrCid : undefined;
+  const bundle = typeof bundleOrCid === 'string' ? await fetchBundle(bundleOrCid, gateway) : bundleOrCid;
+
+  // refuse bundles we can't read or which disagree with themselves
+  if (bundle.version > BUNDLE_VERSION) throw new Error(`Unsupported bundle version: ${bundle.version}`);
+  if (bundle.distribution.hash.toLowerCase() !== bundle.merkle.merkleRoot.toLowerCase()) {
+    throw new Error(`The bundles distribution hash does not match its merkle root (${bundle.merkle.merkleRoot})`);
+  }
+
+  const result = await getCLR(bundle.algorithm, bundle.rounding, bundle.trustBonusScores).verify(
+    grantRoundContributions || bundle.contributions,
+    bundle.trustBonusMetaPtr || '',
+    bundle.merkle.merkleRoot,
+    {
+      distribution: { ...bundle.distribution, merkle: bundle.merkle },
+      trustBonusScores: bundle.trustBonusScores,
+      contributions: bundle.contributions.contributions,
+    }
+  );
+
+  return {
+    ...result,
+    bundle: bundle,
+    cid: cid,
+  };
+};
+
+/**
+ * Builds a CLR which calculates with the pinned algorithm version and nothing but the given scores
+ *
+ * @param algorithm registered algorithm name, version and params
+ * @param rounding how the payouts are rounded to whole token units
+ * @param trustBonusScores the only scores the CLR will use
+ */
+const getCLR = (
+  algorithm: FinalizationBundle['algorithm'],
+  rounding: RoundingOptions,
+  trustBonusScores: TrustBonusScore[]
+) => {
+  return new CLR({
+    ...getMatchingAlgorithmOptions({
+      name: algorithm.name,
+      version: algorithm.version,
+      params: algorithm.params as Record<string, number | boolean>,
+    }),
+    ...rounding,
+    includePayouts: true,
+    trustBonusScores: trustBonusScores,
+  });
+};
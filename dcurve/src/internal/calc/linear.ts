@@ -1,15 +1,28 @@
-import { CLRArgs, ContributionsByGrantId, GrantMatch, GrantsDistribution, TrustBonusScore } from '../../types';
+import {
+  CLRArgs,
+  ContributionsByGrantId,
+  GrantExplanation,
+  GrantMatch,
+  GrantsDistribution,
+  PreparedCLR,
+} from '../../types';
 import { GrantRoundContributions } from '@dgrants/types';
-import { fetchTrustBonusScore, uploadTrustBonusScores } from '@dgrants/utils/src/trustBonus';
-import { getMetaPtr, resolveMetaPtr } from '@dgrants/app/src/utils/data/ipfs';
+import { getTrustWeights } from '../trust';
+import { applyMatchCap } from '../cap';
+import { getTotalPotUnits, normalizeMatchUnits, sqrt, toUnits, WAD } from '../fixed';
+import { ANONYMOUS_ADDRESS, normalizeMatch, pivotContributions } from '../utils';
+import { BigNumber } from 'ethers';
+
+// a contributors (summed) contribution to a grant and the multiplier from their trust bonus score
+type ScoredContribution = { amount: number; score: number };
+
+// the running sums the linear formula is built from
+type LinearSums = { sumOfSqrtContrib: number; sumOfContrib: number };
 
 /**
  * @notice Contains the logic to determine the distribution using linear QF formula.
  *
- * Additonally :
- *  - will fetches trust bonus scores using `fetchTrustBonusScore`
- *  -
- *  - also supports uploading the score onto IPFS and returning the hash.
+ * Contributions are weighted by the supplied `trustBonusScores` (see `getTrustWeights`), nothing is fetched here.
  *
  * @param clrArgs
  */
@@ -18,109 +31,278 @@ export const handle = async (clrArgs: CLRArgs): Promise<GrantsDistribution> => {
   const grantRoundContributions: GrantRoundContributions = clrArgs.contributions;
 
   // unpack grantRoundContributions to local state
-  const { totalPot, contributions } = grantRoundContributions;
+  const { totalPot, matchingTokenDecimals, contributions } = grantRoundContributions;
 
   // define local variables
-  let totalMatch = 0;
   let hasSaturated = false;
   const distribution: GrantMatch[] = [];
-  const contributionsByGrantId: ContributionsByGrantId = {};
-
-  const contributionAddresses: Set<string> = new Set();
 
   // pivot the contributions by project
-  contributions.forEach((contribution) => {
-    if (!contributionsByGrantId[contribution.grantId]) {
-      contributionsByGrantId[contribution.grantId] = {
-        grantId: contribution.grantId,
-        grantAddress: contribution.grantAddress,
-        contributions: {},
-      };
-      contributionAddresses.add(contribution.address);
-    }
-    // sum contributions from the same contributor to dampen effects
-    if (!contributionsByGrantId[contribution.grantId].contributions[contribution.address]) {
-      contributionsByGrantId[contribution.grantId].contributions[contribution.address] = { ...contribution };
-    } else {
-      contributionsByGrantId[contribution.grantId].contributions[contribution.address].amount += contribution.amount;
-    }
-  });
+  const { contributionsByGrantId } = pivotContributions(contributions);
+
+  // weight each contributor by their trust bonus score
+  const getTrustWeight = getTrustWeights(clrArgs);
 
-  let trustBonusScores = clrArgs.trustBonusScores || [];
-  let trustBonusMetaPtr = clrArgs.trustBonusMetaPtr;
+  // calculate linear matching for each Grant
+  Object.values(contributionsByGrantId).forEach((details) => {
+    // pair each contribution with the contributor's weighted trust bonus score
+    const scoredContributions = getScoredContributions(details, getTrustWeight);
 
-  if (!trustBonusScores.length) {
-    if (clrArgs.trustBonusMetaPtr) {
-      // fetch trust bonus scores from metaPtr
-      const url = getMetaPtr({ cid: clrArgs.trustBonusMetaPtr });
-      trustBonusScores = await resolveMetaPtr(url);
+    // record the match for each grantId
+    const grantMatch = {
+      grantId: details.grantId,
+      address: details.grantAddress,
+      match: 0,
+    } as GrantMatch;
+
+    if (clrArgs.fixedPoint) {
+      grantMatch.matchUnits = getMatchUnits(scoredContributions, matchingTokenDecimals).toString();
     } else {
-      // fetch trust bonus scores from gitcoin API
-      const { data, status } = await fetchTrustBonusScore([...contributionAddresses]);
-      if (!status.ok) console.error(status.message);
-      trustBonusScores = data;
+      grantMatch.match = getMatch(scoredContributions);
     }
 
-    // upload trust bonus to IPFS and store hash
-    if (!trustBonusMetaPtr && trustBonusScores) {
-      trustBonusMetaPtr = (await uploadTrustBonusScores(trustBonusScores)).toString();
-    }
-  }
+    distribution.push(grantMatch);
+  });
 
-  // calculate linear matching for each Grant
-  Object.values(contributionsByGrantId).forEach((details) => {
-    let sumOfSqrtContrib = 0;
-    let sumOfContrib = 0;
-    // calculate sum of sqrt of contributions and contributions
-    Object.values(details.contributions).forEach((contribution) => {
-      // get contributor's trust bonus score
-      const trustBonusScore = trustBonusScores.find(
-        (trustScore: TrustBonusScore) => trustScore.address == contribution.address
-      );
+  if (clrArgs.fixedPoint) {
+    // normalize in integer units so that the summed payouts can never exceed the pot
+    hasSaturated = normalizeMatchUnits(distribution, getTotalPotUnits(grantRoundContributions), matchingTokenDecimals);
+  } else {
+    // normalize match if the round has saturated
+    hasSaturated = normalizeMatch(distribution, totalPot);
+  }
 
-      const score = trustBonusScore ? trustBonusScore.score : 0.5;
+  // cap any grant which received more than its share of the pot
+  applyMatchCap(distribution, clrArgs);
 
-      // multiply the trust bonus with the contirbution
-      const weightedContribution = contribution.amount * score;
+  return {
+    distribution: distribution,
+    hasSaturated: hasSaturated,
+    trustBonusMetaPtr: clrArgs.trustBonusMetaPtr,
+  } as GrantsDistribution;
+};
 
-      // sum of square root of contribution
-      sumOfSqrtContrib += weightedContribution ** 0.5;
+/**
+ * @notice Caches the per-grant sums so that the effect of new contributions (an anonymous contribution to one grant
+ * or a contributors contributions to several) can be predicted without recalculating the whole round.
+ *
+ * Only the target grants sums and the saturation factor change, so a prediction is O(grants contributed to)
+ * (or O(grants) when a `matchCap` has to be reapplied).
+ *
+ * @param clrArgs
+ */
+handle.prepare = async (clrArgs: CLRArgs): Promise<PreparedCLR> => {
+  // unpack grantRoundContributions to local state
+  const { totalPot, contributions } = clrArgs.contributions;
 
-      // sum of contributions
-      sumOfContrib += weightedContribution;
-    });
+  // pivot the contributions by project
+  const { contributionsByGrantId } = pivotContributions(contributions);
 
-    // sum of square root of contributions ^ 2 - sum of contributions
-    const match = sumOfSqrtContrib ** 2 - sumOfContrib;
+  // weight each contributor (including the anonymous contributor used by predictions) by their trust bonus score
+  const getTrustWeight = getTrustWeights(clrArgs);
 
-    // record the match for each grantId
+  // record the sums and the (un-normalized) match for each grantId
+  let totalMatch = 0;
+  const distribution: GrantMatch[] = [];
+  const sumsByGrantId: Record<number, LinearSums> = {};
+  Object.values(contributionsByGrantId).forEach((details) => {
+    const sums = getSums(getScoredContributions(details, getTrustWeight));
+    sumsByGrantId[details.grantId] = sums;
     distribution.push({
       grantId: details.grantId,
       address: details.grantAddress,
-      match: match,
+      match: sums.sumOfSqrtContrib ** 2 - sums.sumOfContrib,
     } as GrantMatch);
-
-    // record how much of the totalPot we have allocated
-    totalMatch += match;
+    totalMatch += sums.sumOfSqrtContrib ** 2 - sums.sumOfContrib;
   });
 
-  // this means the round has saturated and we have enough
-  // contributions to ensure all funds are distributed
-  if (totalMatch > totalPot) {
-    hasSaturated = true;
-  }
+  // the (normalized) match of each grant in amounts once address has contributed them
+  const getMatches = (address: string, amounts: Record<number, number>): Record<number, number> => {
+    const weight = getTrustWeight(address);
+    const matches: Record<number, number> = {};
+    let newTotalMatch = totalMatch;
+    Object.keys(amounts).forEach((key) => {
+      const grantId = Number(key);
+      const sums = sumsByGrantId[grantId] || { sumOfSqrtContrib: 0, sumOfContrib: 0 };
 
-  // normalize match if hasSaturated is true
-  if (hasSaturated) {
-    distribution.forEach((grantMatch: GrantMatch) => {
-      // normalize match if round has saturated
-      grantMatch.match = (grantMatch.match * totalPot) / totalMatch;
+      // swap the contributors (summed) contribution for one including the amount
+      const existing = (contributionsByGrantId[grantId]?.contributions[address]?.amount || 0) * weight;
+      const weightedAmount = amounts[grantId] * weight;
+      const sumOfSqrtContrib = sums.sumOfSqrtContrib - existing ** 0.5 + (existing + weightedAmount) ** 0.5;
+      matches[grantId] = sumOfSqrtContrib ** 2 - (sums.sumOfContrib + weightedAmount);
+      newTotalMatch += matches[grantId] - (sums.sumOfSqrtContrib ** 2 - sums.sumOfContrib);
     });
-  }
+
+    // without a cap only these grants matches and the saturation factor change
+    if (clrArgs.matchCap === undefined || clrArgs.matchCap === null) {
+      if (newTotalMatch > totalPot) {
+        Object.keys(matches).forEach(
+          (key) => (matches[Number(key)] = (matches[Number(key)] * totalPot) / newTotalMatch)
+        );
+      }
+
+      return matches;
+    }
+
+    // rebuild the distribution with the new matches so that the cap can be redistributed
+    const newDistribution = distribution.map((grantMatch) => ({ ...grantMatch }));
+    Object.keys(matches).forEach((key) => {
+      const grantId = Number(key);
+      let grantMatch = newDistribution.find((grantMatch) => grantMatch.grantId === grantId);
+      if (!grantMatch) {
+        grantMatch = { grantId: grantId, address: ANONYMOUS_ADDRESS, match: 0 };
+        newDistribution.push(grantMatch);
+      }
+      grantMatch.match = matches[grantId];
+    });
+    normalizeMatch(newDistribution, totalPot);
+    applyMatchCap(newDistribution, clrArgs);
+    newDistribution
+      .filter((grantMatch) => grantMatch.grantId in matches)
+      .forEach((grantMatch) => (matches[grantMatch.grantId] = grantMatch.match));
+
+    return matches;
+  };
 
   return {
-    distribution: distribution,
-    hasSaturated: hasSaturated,
-    trustBonusMetaPtr: trustBonusMetaPtr,
-  } as GrantsDistribution;
+    getMatch: (grantId: number, amount: number) => getMatches(ANONYMOUS_ADDRESS, { [grantId]: amount })[grantId],
+    getJointMatches: (contributor: string, newContributions: { grantId: number; amount: number }[]) => {
+      // attribute the contributions to the contributors address as it appears in the round (as with
+      // `addContributorContributions`)
+      const address =
+        contributions.find((contribution) => contribution.address.toLowerCase() === contributor.toLowerCase())
+          ?.address || contributor;
+      const amounts: Record<number, number> = {};
+      newContributions.forEach(({ grantId, amount }) => {
+        amounts[grantId] = (amounts[grantId] || 0) + Math.max(amount, 0);
+      });
+
+      return getMatches(address, amounts);
+    },
+  };
+};
+
+/**
+ * @notice Breaks the calculation down per grant for the `DistributionReport`.
+ *
+ * Grants don't affect each other before normalization, so removing a contribution only changes its own grants match.
+ *
+ * @param clrArgs
+ */
+handle.explain = async (clrArgs: CLRArgs): Promise<GrantExplanation[]> => {
+  // pivot the contributions by project
+  const { contributionsByGrantId } = pivotContributions(clrArgs.contributions.contributions);
+
+  // weight each contributor by their trust bonus score
+  const getTrustWeight = getTrustWeights(clrArgs);
+
+  return Object.values(contributionsByGrantId).map((details) => {
+    const scoredContributions = getScoredContributions(details, getTrustWeight);
+    const { sumOfSqrtContrib, sumOfContrib } = getSums(scoredContributions);
+
+    return {
+      grantId: details.grantId,
+      address: details.grantAddress,
+      preNormalizationMatch: sumOfSqrtContrib ** 2 - sumOfContrib,
+      contributions: Object.values(details.contributions).map((contribution, index) => {
+        const { amount, score } = scoredContributions[index];
+        const weightedContribution = amount * score;
+
+        return {
+          address: contribution.address,
+          amount: amount,
+          weight: score,
+          // take this contribution back out of the sums
+          leaveOneOut: {
+            [details.grantId]:
+              (sumOfSqrtContrib - weightedContribution ** 0.5) ** 2 - (sumOfContrib - weightedContribution),
+          },
+        };
+      }),
+    };
+  });
+};
+
+/**
+ * Pairs each (summed) contribution to a grant with the contributor's weighted trust bonus score
+ *
+ * @param details the grants pivoted contributions
+ * @param getTrustWeight address -> multiplier (see `getTrustWeights`)
+ */
+const getScoredContributions = (
+  details: ContributionsByGrantId[number],
+  getTrustWeight: (address: string) => number
+): ScoredContribution[] => {
+  return Object.values(details.contributions).map((contribution) => {
+    return {
+      amount: contribution.amount,
+      score: getTrustWeight(contribution.address),
+    };
+  });
+};
+
+/**
+ * Linear match for a single grant: sum of square root of contributions ^ 2 - sum of contributions
+ *
+ * @param scoredContributions (summed) contributions from each contributor with their trust bonus score
+ * @returns match as a human readable number
+ */
+const getMatch = (scoredContributions: ScoredContribution[]): number => {
+  const { sumOfSqrtContrib, sumOfContrib } = getSums(scoredContributions);
+
+  // sum of square root of contributions ^ 2 - sum of contributions
+  return sumOfSqrtContrib ** 2 - sumOfContrib;
+};
+
+/**
+ * Sum of the square root of the weighted contributions and sum of the weighted contributions for a single grant
+ *
+ * @param scoredContributions (summed) contributions from each contributor with their trust bonus score
+ */
+const getSums = (scoredContributions: ScoredContribution[]): LinearSums => {
+  let sumOfSqrtContrib = 0;
+  let sumOfContrib = 0;
+  // calculate sum of sqrt of contributions and contributions
+  scoredContributions.forEach(({ amount, score }) => {
+    // multiply the trust bonus with the contirbution
+    const weightedContribution = amount * score;
+
+    // sum of square root of contribution
+    sumOfSqrtContrib += weightedContribution ** 0.5;
+
+    // sum of contributions
+    sumOfContrib += weightedContribution;
+  });
+
+  return { sumOfSqrtContrib, sumOfContrib };
+};
+
+/**
+ * Fixed-point equivalent of `getMatch`, every value is an integer amount of the matching tokens smallest unit
+ *
+ * @param scoredContributions (summed) contributions from each contributor with their trust bonus score
+ * @param decimals number of decimals used by the matching token
+ * @returns match in the matching tokens smallest unit
+ */
+const getMatchUnits = (scoredContributions: ScoredContribution[], decimals: number): BigNumber => {
+  // sqrt(x * 10^d) keeps the root in the same units as x
+  const one = BigNumber.from(10).pow(decimals);
+  let sumOfSqrtContrib = BigNumber.from(0);
+  let sumOfContrib = BigNumber.from(0);
+  // calculate sum of sqrt of contributions and contributions
+  scoredContributions.forEach(({ amount, score }) => {
+    // multiply the trust bonus with the contirbution
+    const weightedContribution = toUnits(amount, decimals).mul(toUnits(score, 18)).div(WAD);
+
+    // sum of square root of contribution
+    sumOfSqrtContrib = sumOfSqrtContrib.add(sqrt(weightedContribution.mul(one)));
+
+    // sum of contributions
+    sumOfContrib = sumOfContrib.add(weightedContribution);
+  });
+
+  // sum of square root of contributions ^ 2 - sum of contributions (rounding can take a lone contributor below zero)
+  const match = sumOfSqrtContrib.mul(sumOfSqrtContrib).div(one).sub(sumOfContrib);
+
+  return match.lt(0) ? BigNumber.from(0) : match;
 };
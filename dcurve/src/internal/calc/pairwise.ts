@@ -0,0 +1,267 @@
+import { CLRArgs, GrantExplanation, GrantMatch, GrantsDistribution } from '../../types';
+import { GrantRoundContributions } from '@dgrants/types';
+import { getTrustWeights } from '../trust';
+import { applyMatchCap } from '../cap';
+import { normalizeMatch, pivotContributions } from '../utils';
+import { getTotalPotUnits, normalizeMatchUnits, sqrt, toUnits, WAD } from '../fixed';
+import { BigNumber } from 'ethers';
+
+// the default coordination threshold (in donationToken) used by gitcoin's pairwise implementation
+export const DEFAULT_PAIRWISE_THRESHOLD = 25;
+
+/**
+ * @notice Contains the logic to determine the distribution using the pairwise QF formula.
+ *
+ * The linear formula can be rewritten as the sum over every pair of contributors to a grant of
+ * `2 * sqrt(c_i * c_j)`. Pairwise discounts each of those pair terms by how much the same two
+ * contributors co-fund across the whole round:
+ *
+ *    pairMatch = 2 * sqrt(c_i * c_j) * M / (M + coordination_ij)
+ *
+ * where `coordination_ij` is the sum of `sqrt(c_i * c_j)` over every grant both contributors funded and
+ * `M` is the `pairwiseThreshold`. As `M` grows the penalty vanishes and the result approaches `linear`.
+ *
+ * Contributions are weighted by the supplied `trustBonusScores` exactly as they are for `linear`.
+ *
+ * @param clrArgs
+ */
+export const handle = async (clrArgs: CLRArgs): Promise<GrantsDistribution> => {
+  // GrantRoundContributions will define the round and hold all matching contributions
+  const grantRoundContributions: GrantRoundContributions = clrArgs.contributions;
+
+  // unpack grantRoundContributions to local state
+  const { totalPot, matchingTokenDecimals, contributions } = grantRoundContributions;
+
+  // coordination threshold
+  const threshold = clrArgs.pairwiseThreshold ?? DEFAULT_PAIRWISE_THRESHOLD;
+
+  // define local variables
+  let hasSaturated = false;
+  const distribution: GrantMatch[] = [];
+
+  // pivot the contributions by project
+  const { contributionsByGrantId } = pivotContributions(contributions);
+
+  // weight each contributor by their trust bonus score
+  const getTrustWeight = getTrustWeights(clrArgs);
+
+  // weight every contributors (summed) contribution by their trust bonus score
+  const weightedByGrantId: Record<number, Record<string, number>> = {};
+  const weightedUnitsByGrantId: Record<number, Record<string, BigNumber>> = {};
+  Object.values(contributionsByGrantId).forEach((details) => {
+    weightedByGrantId[details.grantId] = {};
+    weightedUnitsByGrantId[details.grantId] = {};
+    Object.values(details.contributions).forEach((contribution) => {
+      // get contributor's weighted trust bonus score
+      const score = getTrustWeight(contribution.address);
+
+      // multiply the trust bonus with the contirbution
+      if (clrArgs.fixedPoint) {
+        weightedUnitsByGrantId[details.grantId][contribution.address] = toUnits(
+          contribution.amount,
+          matchingTokenDecimals
+        )
+          .mul(toUnits(score, 18))
+          .div(WAD);
+      } else {
+        weightedByGrantId[details.grantId][contribution.address] = contribution.amount * score;
+      }
+    });
+  });
+
+  if (clrArgs.fixedPoint) {
+    // calculate pairwise matching for each Grant in integer units
+    const matches = getMatchesUnits(weightedUnitsByGrantId, toUnits(threshold, matchingTokenDecimals));
+    Object.values(contributionsByGrantId).forEach((details) => {
+      distribution.push({
+        grantId: details.grantId,
+        address: details.grantAddress,
+        match: 0,
+        matchUnits: matches[details.grantId].toString(),
+      } as GrantMatch);
+    });
+
+    // normalize in integer units so that the summed payouts can never exceed the pot
+    hasSaturated = normalizeMatchUnits(distribution, getTotalPotUnits(grantRoundContributions), matchingTokenDecimals);
+  } else {
+    // calculate pairwise matching for each Grant
+    const matches = getMatches(weightedByGrantId, threshold);
+    Object.values(contributionsByGrantId).forEach((details) => {
+      // record the match for each grantId
+      distribution.push({
+        grantId: details.grantId,
+        address: details.grantAddress,
+        match: matches[details.grantId],
+      } as GrantMatch);
+    });
+
+    // normalize match if the round has saturated
+    hasSaturated = normalizeMatch(distribution, totalPot);
+  }
+
+  // cap any grant which received more than its share of the pot
+  applyMatchCap(distribution, clrArgs);
+
+  return {
+    distribution: distribution,
+    hasSaturated: hasSaturated,
+    trustBonusMetaPtr: clrArgs.trustBonusMetaPtr,
+  } as GrantsDistribution;
+};
+
+/**
+ * @notice Breaks the calculation down per grant for the `DistributionReport`.
+ *
+ * Removing a contribution drops every pair it forms from its own grant, and lowers the coordination of those pairs
+ * everywhere else they co-fund - so the other grants those pairs fund are matched a little more.
+ *
+ * @param clrArgs
+ */
+handle.explain = async (clrArgs: CLRArgs): Promise<GrantExplanation[]> => {
+  // coordination threshold
+  const threshold = clrArgs.pairwiseThreshold ?? DEFAULT_PAIRWISE_THRESHOLD;
+
+  // pivot the contributions by project
+  const { contributionsByGrantId } = pivotContributions(clrArgs.contributions.contributions);
+
+  // weight each contributor by their trust bonus score
+  const getTrustWeight = getTrustWeights(clrArgs);
+
+  // weight every contributors (summed) contribution by their trust bonus score
+  const weightedByGrantId: Record<number, Record<string, number>> = {};
+  Object.values(contributionsByGrantId).forEach((details) => {
+    weightedByGrantId[details.grantId] = {};
+    Object.values(details.contributions).forEach((contribution) => {
+      weightedByGrantId[details.grantId][contribution.address] =
+        contribution.amount * getTrustWeight(contribution.address);
+    });
+  });
+
+  // record the coordination of each pair and the grants they co-fund
+  const pairTotals: Record<string, number> = {};
+  const pairGrantIds: Record<string, number[]> = {};
+  Object.keys(weightedByGrantId).forEach((grantId) => {
+    forEachPair(weightedByGrantId[Number(grantId)], (pairKey, a, b) => {
+      pairTotals[pairKey] = (pairTotals[pairKey] || 0) + (a * b) ** 0.5;
+      if (!pairGrantIds[pairKey]) pairGrantIds[pairKey] = [];
+      pairGrantIds[pairKey].push(Number(grantId));
+    });
+  });
+  const matches = getMatches(weightedByGrantId, threshold);
+
+  return Object.values(contributionsByGrantId).map((details) => {
+    const weighted = weightedByGrantId[details.grantId];
+
+    return {
+      grantId: details.grantId,
+      address: details.grantAddress,
+      preNormalizationMatch: matches[details.grantId],
+      contributions: Object.values(details.contributions).map((contribution) => {
+        const leaveOneOut: Record<number, number> = { [details.grantId]: matches[details.grantId] };
+        Object.keys(weighted).forEach((address) => {
+          if (address === contribution.address) return;
+          const pairKey = [contribution.address, address].sort().join('-');
+          const pairSqrt = (weighted[contribution.address] * weighted[address]) ** 0.5;
+
+          // the pair no longer funds this grant together
+          leaveOneOut[details.grantId] -= (2 * pairSqrt * threshold) / (threshold + pairTotals[pairKey]);
+
+          // so it is less coordinated on every other grant it funds
+          pairGrantIds[pairKey].forEach((grantId) => {
+            if (grantId === details.grantId) return;
+            const otherPairSqrt =
+              (weightedByGrantId[grantId][contribution.address] * weightedByGrantId[grantId][address]) ** 0.5;
+            leaveOneOut[grantId] =
+              (leaveOneOut[grantId] ?? matches[grantId]) +
+              (2 * otherPairSqrt * threshold) / (threshold + pairTotals[pairKey] - pairSqrt) -
+              (2 * otherPairSqrt * threshold) / (threshold + pairTotals[pairKey]);
+          });
+        });
+
+        return {
+          address: contribution.address,
+          amount: contribution.amount,
+          weight: getTrustWeight(contribution.address),
+          leaveOneOut: leaveOneOut,
+        };
+      }),
+    };
+  });
+};
+
+/**
+ * Pairwise match for every grant
+ *
+ * @param weightedByGrantId weighted contributions to each grant (grantId -> address -> amount)
+ * @param threshold coordination threshold
+ * @returns grantId -> match
+ */
+const getMatches = (weightedByGrantId: Record<number, Record<string, number>>, threshold: number) => {
+  // sum how much each pair of contributors has co-funded across every grant in the round
+  const pairTotals: Record<string, number> = {};
+  Object.values(weightedByGrantId).forEach((weighted) => {
+    forEachPair(weighted, (pairKey, a, b) => {
+      pairTotals[pairKey] = (pairTotals[pairKey] || 0) + (a * b) ** 0.5;
+    });
+  });
+
+  // sum each pairs contribution to the match, discounted by the pairs coordination
+  const matches: Record<number, number> = {};
+  Object.keys(weightedByGrantId).forEach((grantId) => {
+    matches[Number(grantId)] = 0;
+    forEachPair(weightedByGrantId[Number(grantId)], (pairKey, a, b) => {
+      matches[Number(grantId)] += (2 * (a * b) ** 0.5 * threshold) / (threshold + pairTotals[pairKey]);
+    });
+  });
+
+  return matches;
+};
+
+/**
+ * Fixed-point equivalent of `getMatches`, every value is an integer amount of the matching tokens smallest unit
+ *
+ * @param weightedByGrantId weighted contributions to each grant (grantId -> address -> amount in units)
+ * @param threshold coordination threshold in units
+ * @returns grantId -> match in units
+ */
+const getMatchesUnits = (weightedByGrantId: Record<number, Record<string, BigNumber>>, threshold: BigNumber) => {
+  // sqrt(a * b) of two unit amounts is already in units
+  const pairSqrt = (a: BigNumber, b: BigNumber) => sqrt(a.mul(b));
+
+  // sum how much each pair of contributors has co-funded across every grant in the round
+  const pairTotals: Record<string, BigNumber> = {};
+  Object.values(weightedByGrantId).forEach((weighted) => {
+    forEachPair(weighted, (pairKey, a, b) => {
+      pairTotals[pairKey] = (pairTotals[pairKey] || BigNumber.from(0)).add(pairSqrt(a, b));
+    });
+  });
+
+  // sum each pairs contribution to the match, discounted by the pairs coordination
+  const matches: Record<number, BigNumber> = {};
+  Object.keys(weightedByGrantId).forEach((grantId) => {
+    matches[Number(grantId)] = BigNumber.from(0);
+    forEachPair(weightedByGrantId[Number(grantId)], (pairKey, a, b) => {
+      matches[Number(grantId)] = matches[Number(grantId)].add(
+        pairSqrt(a, b).mul(2).mul(threshold).div(threshold.add(pairTotals[pairKey]))
+      );
+    });
+  });
+
+  return matches;
+};
+
+/**
+ * Calls `callback` once for every (unordered) pair of contributors in `weighted`
+ *
+ * @param weighted weighted contributions to a single grant (address -> amount)
+ * @param callback receives a stable key for the pair and both weighted contributions
+ */
+const forEachPair = <T>(weighted: Record<string, T>, callback: (pairKey: string, a: T, b: T) => void) => {
+  // sort so that each pair always produces the same key
+  const addresses = Object.keys(weighted).sort();
+  for (let i = 0; i < addresses.length; i++) {
+    for (let j = i + 1; j < addresses.length; j++) {
+      callback(`${addresses[i]}-${addresses[j]}`, weighted[addresses[i]], weighted[addresses[j]]);
+    }
+  }
+};
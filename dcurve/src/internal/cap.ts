@@ -0,0 +1,110 @@
+import { BigNumber } from 'ethers';
+import { CLRArgs, GrantMatch } from '../types';
+import { fromUnits, getTotalPotUnits, toUnits, WAD } from './fixed';
+
+/**
+ * @notice Caps every grant at `clrArgs.matchCap` (a share of the pot) and redistributes the excess.
+ *
+ * Anything over the cap is handed back to the uncapped grants in proportion to their current match. That can push
+ * another grant over the cap, so we repeat until no grant exceeds it (or every grant has been capped, in which case
+ * the excess is left unallocated). Capped grants are flagged with `capped: true`.
+ *
+ * Should be applied after saturation normalization, it never increases the total allocated.
+ *
+ * @param distribution GrantMatch[] (updated in place)
+ * @param clrArgs
+ */
+export const applyMatchCap = (distribution: GrantMatch[], clrArgs: CLRArgs) => {
+  const { matchCap } = clrArgs;
+
+  // nothing to do if no cap was requested
+  if (matchCap === undefined || matchCap === null) return;
+
+  // the cap is a share of the pot
+  if (!(matchCap > 0 && matchCap <= 1)) {
+    throw new Error(`matchCap must be greater than 0 and at most 1, received ${matchCap}`);
+  }
+
+  if (clrArgs.fixedPoint) {
+    capMatchUnits(distribution, clrArgs);
+  } else {
+    capMatch(distribution, matchCap * clrArgs.contributions.totalPot);
+  }
+};
+
+/**
+ * Float implementation of the cap
+ *
+ * @param distribution GrantMatch[]
+ * @param cap max match for a single grant
+ */
+const capMatch = (distribution: GrantMatch[], cap: number) => {
+  // each pass caps at least one more grant, so this always terminates
+  for (;;) {
+    // cap any grant over the limit and collect the excess
+    let excess = 0;
+    distribution.forEach((grantMatch) => {
+      if (!grantMatch.capped && grantMatch.match > cap) {
+        excess += grantMatch.match - cap;
+        grantMatch.match = cap;
+        grantMatch.capped = true;
+      }
+    });
+
+    // sum the match of the grants which can still receive funds
+    const uncapped = distribution.filter((grantMatch) => !grantMatch.capped);
+    const uncappedMatch = uncapped.reduce((total, grantMatch) => total + grantMatch.match, 0);
+    if (!excess || !uncappedMatch) return;
+
+    // hand the excess back proportionally
+    uncapped.forEach((grantMatch) => {
+      grantMatch.match += (excess * grantMatch.match) / uncappedMatch;
+    });
+  }
+};
+
+/**
+ * Fixed-point implementation of the cap (each share is rounded down so the total can only shrink)
+ *
+ * @param distribution GrantMatch[] with `matchUnits` set
+ * @param clrArgs
+ */
+const capMatchUnits = (distribution: GrantMatch[], clrArgs: CLRArgs) => {
+  const { matchingTokenDecimals } = clrArgs.contributions;
+  const cap = getTotalPotUnits(clrArgs.contributions)
+    .mul(toUnits(clrArgs.matchCap as number, 18))
+    .div(WAD);
+
+  // each pass caps at least one more grant, so this always terminates
+  for (;;) {
+    // cap any grant over the limit and collect the excess
+    let excess = BigNumber.from(0);
+    distribution.forEach((grantMatch) => {
+      const matchUnits = BigNumber.from(grantMatch.matchUnits || 0);
+      if (!grantMatch.capped && matchUnits.gt(cap)) {
+        excess = excess.add(matchUnits.sub(cap));
+        grantMatch.matchUnits = cap.toString();
+        grantMatch.capped = true;
+      }
+    });
+
+    // sum the match of the grants which can still receive funds
+    const uncapped = distribution.filter((grantMatch) => !grantMatch.capped);
+    const uncappedMatch = uncapped.reduce(
+      (total, grantMatch) => total.add(grantMatch.matchUnits || 0),
+      BigNumber.from(0)
+    );
+    if (excess.isZero() || uncappedMatch.isZero()) break;
+
+    // hand the excess back proportionally
+    uncapped.forEach((grantMatch) => {
+      const matchUnits = BigNumber.from(grantMatch.matchUnits || 0);
+      grantMatch.matchUnits = matchUnits.add(excess.mul(matchUnits).div(uncappedMatch)).toString();
+    });
+  }
+
+  // keep the human readable match in step
+  distribution.forEach((grantMatch) => {
+    grantMatch.match = fromUnits(BigNumber.from(grantMatch.matchUnits || 0), matchingTokenDecimals);
+  });
+};
@@ -1,16 +1,36 @@
 'use strict';
 import { CLRPrediction, GrantPrediction, GrantRoundContributions } from '@dgrants/types';
 import {
+  CalcAlgo,
   CLRArgs,
   GrantMatch,
   GrantsDistribution,
   GrantPredictionArgs,
   InitArgs,
+  JointGrantPrediction,
+  JointPrediction,
+  JointPredictionArgs,
+  MatchingPool,
+  MultiRoundDistribution,
+  MultiTokenDistribution,
+  PayoutAdjustment,
   PayoutMatch,
   PayoutMatches,
+  PreparedCLR,
+  PublishedDistribution,
+  RoundingOptions,
+  TokenPayoutDistribution,
+  VerificationResult,
 } from '../../src/types';
-import { generateMerkle, getMerkleRoot } from './merkle';
-import { addAnonymousContribution, getGrantMatch } from './utils';
+import { generateMerkle, generateTokenMerkle, getMerkleRoot, MerkleDistributorInfo } from './merkle';
+import { getAddress } from 'ethers/lib/utils';
+import { BigNumber } from 'ethers';
+import { addAnonymousContribution, addContributorContributions, ANONYMOUS_ADDRESS, getGrantMatch } from './utils';
+import { IpfsTrustScoreProvider } from './trust';
+import { getDistributionReport } from './report';
+import { getVerificationResult } from './verify';
+import { getTotalPotUnits } from './fixed';
+import { roundPayouts } from './rounding';
 
 // polyfill Buffer for use in browser
 import { Buffer } from 'buffer/';
@@ -19,6 +39,7 @@ Object.defineProperty(global, 'Buffer', { value: Buffer });
 
 export class CLR {
   _options: InitArgs;
+  _prepared?: { key: unknown[]; state: Promise<PreparedCLR> };
 
   constructor(readonly options: InitArgs) {
     this._options = options;
@@ -31,62 +52,176 @@ export class CLR {
     // allow the options to be overridden
     const options = Object.assign(this._options, _options || {});
 
+    // calculate distribution based on contributions
+    return this._calculate({
+      contributions: grantRoundContributions,
+      ...options,
+    } as CLRArgs & InitArgs);
+  }
+
+  /**
+   * Calculates the distribution for each of the provided rounds and combines the payouts
+   * so that each payee has a single claim per matching token
+   *
+   * Rounds without a `matchingToken` can't be combined with any other round and are aggregated on their own.
+   *
+   * @param rounds GrantRoundContributions for every round
+   * @returns MultiRoundDistribution
+   */
+  async calculateMany(
+    rounds: GrantRoundContributions[],
+    _options?: Record<string, unknown>
+  ): Promise<MultiRoundDistribution> {
+    // allow the options to be overridden
+    const options = Object.assign(this._options, _options || {});
+
     // retrieve the calcAlgo from the supplied options
     const calcAlgo = options['calcAlgo'];
 
-    // move distribution into a payout obj
-    const payoutObj: PayoutMatches = {};
+    // calculate each round on its own (payouts are built per token below)
+    const distributions: GrantsDistribution[] = [];
+    for (const grantRoundContributions of rounds) {
+      const distribution: GrantsDistribution = await calcAlgo({
+        contributions: grantRoundContributions,
+        ...options,
+      } as CLRArgs);
+      // record the grantRound for identification
+      distribution.grantRound = grantRoundContributions.grantRound;
+      distributions.push(distribution);
+    }
 
-    // calculate distribution based on contributions
-    const distribution: GrantsDistribution = await calcAlgo({
+    // group the rounds by the token they pay out in
+    const payoutsByToken: Record<string, TokenPayoutDistribution> = {};
+    const grantMatchesByToken: Record<string, GrantMatch[]> = {};
+    const totalPotUnitsByToken: Record<string, BigNumber> = {};
+    rounds.forEach((grantRoundContributions, index) => {
+      const matchingToken = grantRoundContributions.matchingToken || grantRoundContributions.grantRound;
+      if (!payoutsByToken[matchingToken]) {
+        payoutsByToken[matchingToken] = {
+          matchingToken: matchingToken,
+          matchingTokenDecimals: grantRoundContributions.matchingTokenDecimals,
+          grantRounds: [],
+          payoutDistribution: [],
+        };
+        grantMatchesByToken[matchingToken] = [];
+        totalPotUnitsByToken[matchingToken] = BigNumber.from(0);
+      } else if (
+        payoutsByToken[matchingToken].matchingTokenDecimals !== grantRoundContributions.matchingTokenDecimals
+      ) {
+        // the same token must always be parsed with the same decimals
+        throw new Error(`Rounds paying out in ${matchingToken} disagree on the matchingTokenDecimals`);
+      }
+      payoutsByToken[matchingToken].grantRounds.push(grantRoundContributions.grantRound);
+      grantMatchesByToken[matchingToken].push(...distributions[index].distribution);
+      totalPotUnitsByToken[matchingToken] = totalPotUnitsByToken[matchingToken].add(
+        getTotalPotUnits(grantRoundContributions)
+      );
+    });
+
+    // combine the payouts for each token (and optionally build a merkle for each)
+    const payouts = Object.values(payoutsByToken).map((payouts) => {
+      payouts.payoutDistribution = getPayoutDistribution(grantMatchesByToken[payouts.matchingToken]);
+      // we cannot create a merkle without any contributions
+      if (!totalPotUnitsByToken[payouts.matchingToken].isZero() && options.includePayouts) {
+        Object.assign(
+          payouts,
+          getPayoutMerkle(
+            payouts.payoutDistribution,
+            totalPotUnitsByToken[payouts.matchingToken],
+            payouts.matchingTokenDecimals,
+            options
+          )
+        );
+      }
+
+      return payouts;
+    });
+
+    // return the distribution for each round along with the combined payouts
+    return {
+      distributions: distributions,
+      payouts: payouts,
+    } as MultiRoundDistribution;
+  }
+
+  /**
+   * Calculates the distribution of a round funded by several matching pools
+   *
+   * Each pool is matched against the rounds contributions as though it were the rounds only pot, so every grant
+   * receives the same share of each pool (less any difference in saturation). With `includePayouts` the rounded
+   * payouts in every token are combined into a single merkle tree with `(index, account, token, amount)` leaves.
+   *
+   * @param grantRoundContributions the round (its own pot and matching token are replaced by each pools)
+   * @param pools MatchingPool[] (one per matching token)
+   * @returns MultiTokenDistribution
+   */
+  async calculateMultiToken(
+    grantRoundContributions: GrantRoundContributions,
+    pools: MatchingPool[],
+    _options?: Record<string, unknown>
+  ): Promise<MultiTokenDistribution> {
+    // allow the options to be overridden
+    const options = Object.assign(this._options, _options || {});
+
+    // every token can only be paid from one pool
+    const matchingTokens = pools.map((pool) => getAddress(pool.matchingToken));
+    if (new Set(matchingTokens).size !== matchingTokens.length) {
+      throw new Error('Each matching pool must pay out in a different token');
+    }
+
+    // every pool is calculated with the same trust bonus scores
+    const clrArgs = {
       contributions: grantRoundContributions,
       ...options,
-    } as CLRArgs);
+      includePayouts: false,
+    } as CLRArgs & InitArgs;
 
-    // record the grantRound for identification
-    distribution.grantRound = grantRoundContributions.grantRound;
+    // distribute each pool and round its payouts
+    const distributions: GrantsDistribution[] = [];
+    const payouts: TokenPayoutDistribution[] = [];
+    for (const pool of pools) {
+      const poolContributions: GrantRoundContributions = {
+        ...grantRoundContributions,
+        matchingToken: getAddress(pool.matchingToken),
+        matchingTokenDecimals: pool.matchingTokenDecimals,
+        totalPot: pool.totalPot,
+        totalPotUnits: pool.totalPotUnits,
+      };
+      const distribution = await this._calculate({ ...clrArgs, contributions: poolContributions });
+      distributions.push(distribution);
 
-    // check if the calculation should include payouts (we cannot create a merkle without any contributions)
-    if (grantRoundContributions.totalPot && options.includePayouts) {
-      // construct the payout obj by combining any grants which have the same payout address
-      distribution.distribution.forEach((grantMatch: GrantMatch) => {
-        // each payout address must only appear once in the payoutDistribution
-        let grantIds = [grantMatch.grantId];
-        // check if the payout address is already recorded
-        if (payoutObj[grantMatch.address]) {
-          // get the current set of grantIds
-          const currentGrantIds = payoutObj[grantMatch.address].grantIds;
-          // add the set of grantIds to the arr and dedupe
-          grantIds = [...new Set(grantIds.concat(currentGrantIds))];
-        }
-        // ensure the payout address has a match to claim
-        if (grantMatch.match) {
-          // sum the total match for each payout address
-          payoutObj[grantMatch.address] = {
-            grantIds: grantIds,
-            address: grantMatch.address,
-            match: grantMatch.match + (payoutObj[grantMatch.address]?.match || 0),
-          } as PayoutMatch;
-        }
+      const { payoutDistribution, adjustments } = roundPayouts(
+        getPayoutDistribution(distribution.distribution),
+        getTotalPotUnits(poolContributions),
+        pool.matchingTokenDecimals,
+        options
+      );
+      payouts.push({
+        matchingToken: getAddress(pool.matchingToken),
+        matchingTokenDecimals: pool.matchingTokenDecimals,
+        grantRounds: [grantRoundContributions.grantRound],
+        payoutDistribution: payoutDistribution,
+        payoutAdjustments: adjustments,
       });
-      // record the distribution used to generate the merkle
-      distribution.payoutDistribution = Object.values(payoutObj) as PayoutMatch[];
-      // prevent attempting to generate a merkle tree if we're missing the minimum number of leafs
-      if (distribution.payoutDistribution.length > 1) {
-        // generate the merkle tree and record the root
-        distribution.merkle = generateMerkle(
-          distribution.payoutDistribution,
-          grantRoundContributions.matchingTokenDecimals
-        );
-        distribution.hash = getMerkleRoot(distribution.merkle);
+    }
+
+    // build one tree for every token
+    const multiTokenDistribution: MultiTokenDistribution = {
+      grantRound: grantRoundContributions.grantRound,
+      distributions: distributions,
+      payouts: payouts,
+    };
+    if (options.includePayouts) {
+      // prevent attempting to generate a merkle tree without any leafs
+      if (payouts.some((tokenPayouts) => tokenPayouts.payoutDistribution.length)) {
+        multiTokenDistribution.merkle = generateTokenMerkle(payouts);
+        multiTokenDistribution.hash = multiTokenDistribution.merkle.merkleRoot;
       } else {
-        // empty state when we can't create a tree
-        distribution.merkleError = 'Missing required context to build tree';
+        multiTokenDistribution.merkleError = 'Missing required context to build tree';
       }
     }
 
-    // return distribution details (<GrantsDistribution>)
-    return distribution;
+    return multiTokenDistribution;
   }
 
   /**
@@ -110,6 +245,38 @@ export class CLR {
     const trustBonusScores = args.trustBonusScores;
     const predictions: CLRPrediction[] = [];
 
+    // predict from the algorithms cached state when it supports it (fixedPoint is only available on the full calculation)
+    if (calcAlgo.prepare && !options.fixedPoint) {
+      const prepared = await this._prepare(calcAlgo.prepare, {
+        contributions: grantRoundContributions,
+        trustBonusScores: trustBonusScores,
+        ...options,
+      } as CLRArgs);
+
+      // an anonymous contribution of 0 leaves the current match unchanged
+      const currentGrantMatch = prepared.getMatch(grantId, 0);
+
+      // calculate predicted match for each predictionPoint
+      predictionPoints.forEach((predictionPoint) => {
+        const predictedGrantMatch = prepared.getMatch(grantId, predictionPoint);
+
+        // push the prediction for the predictionPoint
+        predictions.push({
+          predictionPoint: predictionPoint,
+          predictedGrantMatch: predictedGrantMatch,
+          predictionDiff: predictedGrantMatch - currentGrantMatch,
+        } as CLRPrediction);
+      });
+
+      // return the GrantPredictions
+      return {
+        grantId: grantId,
+        grantRound: grantRoundContributions.grantRound,
+        axis: predictionPoints,
+        predictions: predictions,
+      } as GrantPrediction;
+    }
+
     // calculate distribution based on current contribution
     const distribution: GrantsDistribution = await calcAlgo({
       contributions: grantRoundContributions,
@@ -148,45 +315,297 @@ export class CLR {
     return {
       grantId: grantId,
       grantRound: grantRoundContributions.grantRound,
+      axis: predictionPoints,
       predictions: predictions,
     } as GrantPrediction;
   }
 
   /**
-   * Verifies hash based on distribution & the trust bonus score
+   * Predicts the match of several grants when a contributor makes all of their contributions at once. Unlike
+   * `predict`, the contributions are added together and attributed to the contributor, so the result accounts for
+   * their trust bonus score, what they have already contributed and the grants competing for the same pot
+   * @param JointPredictionArgs
+   *
+   * @returns JointPrediction
+   */
+  async predictJoint(args: JointPredictionArgs, _options?: Record<string, unknown>): Promise<JointPrediction> {
+    // allow the options to be overridden
+    const options = Object.assign(this._options, _options || {});
+
+    // retrieve the calcAlgo from the supplied options
+    const calcAlgo = options['calcAlgo'];
+
+    // unpack the prediction arguments
+    const contributor = args.contributor || ANONYMOUS_ADDRESS;
+    const grantRoundContributions: GrantRoundContributions = args.grantRoundContributions;
+    const trustBonusScores = args.trustBonusScores;
+
+    // the match of a grant before and after the contributions are added
+    let getCurrentMatch: (grantId: number) => number;
+    let getPredictedMatch: (grantId: number) => number;
+
+    if (calcAlgo.prepare && !options.fixedPoint) {
+      // predict from the algorithms cached state when it supports it (fixedPoint is only available on the full calculation)
+      const prepared = await this._prepare(calcAlgo.prepare, {
+        contributions: grantRoundContributions,
+        trustBonusScores: trustBonusScores,
+        ...options,
+      } as CLRArgs);
+      const predictedMatches = prepared.getJointMatches(contributor, args.contributions);
+
+      // an anonymous contribution of 0 leaves the current match unchanged
+      getCurrentMatch = (grantId) => prepared.getMatch(grantId, 0);
+      getPredictedMatch = (grantId) => predictedMatches[grantId];
+    } else {
+      // calculate distribution based on current contributions
+      const distribution: GrantsDistribution = await calcAlgo({
+        contributions: grantRoundContributions,
+        trustBonusScores: trustBonusScores,
+        ...options,
+      } as CLRArgs);
+
+      // calculate distribution with every contribution added
+      const newDistribution: GrantsDistribution = await calcAlgo({
+        contributions: addContributorContributions(contributor, args.contributions, grantRoundContributions),
+        trustBonusScores: trustBonusScores,
+        ...options,
+      } as CLRArgs);
+
+      getCurrentMatch = (grantId) => getGrantMatch(grantId, distribution);
+      getPredictedMatch = (grantId) => getGrantMatch(grantId, newDistribution);
+    }
+
+    // compare the match of each grant contributed to
+    const grantIds = Array.from(new Set(args.contributions.map((contribution) => contribution.grantId)));
+    const predictions: JointGrantPrediction[] = grantIds.map((grantId) => {
+      const currentMatch = getCurrentMatch(grantId);
+      const predictedMatch = getPredictedMatch(grantId);
+
+      return { grantId, currentMatch, predictedMatch, predictionDiff: predictedMatch - currentMatch };
+    });
+
+    return {
+      grantRound: grantRoundContributions.grantRound,
+      contributor: contributor,
+      predictions: predictions,
+      totalDiff: predictions.reduce((total, prediction) => total + prediction.predictionDiff, 0),
+    };
+  }
+
+  /**
+   * Returns the calcAlgos prepared state for these args, reusing the last one when nothing has changed
+   * (predicting every grant in a round supplies the same contributions and scores each time)
+   *
+   * @param prepare the calcAlgos `prepare`
+   * @param clrArgs
+   * @returns PreparedCLR
+   */
+  _prepare(prepare: NonNullable<CalcAlgo['prepare']>, clrArgs: CLRArgs): Promise<PreparedCLR> {
+    // anything which could change the distribution invalidates the cache (compared by value so that contributions,
+    // scores and options which were mutated in place are picked up too)
+    const key = getCacheKey(clrArgs);
+
+    if (
+      !this._prepared ||
+      this._prepared.key.length !== key.length ||
+      this._prepared.key.some((value, index) => value !== key[index])
+    ) {
+      const state = prepare(clrArgs);
+      this._prepared = { key, state };
+      // don't hold on to a failed preparation
+      state.catch(() => {
+        if (this._prepared?.state === state) this._prepared = undefined;
+      });
+    }
+
+    return this._prepared.state;
+  }
+
+  /**
+   * Recalculates the distribution and compares it against a published one
+   *
+   * The calculation uses the configured `trustBonusScores` when there are any (so that the published trust bonus
+   * scores can be audited) and the scores published at `trustBonusMetaPtr` otherwise. Anything supplied in
+   * `published` is diffed against the recalculation, so a mismatched hash can be traced back to the grants, payees,
+   * trust bonus scores and contributions responsible.
    *
    * @param grantRoundContributions
    * @param trustBonusMetaPtr
    * @param hash
-   * @returns Boolean
+   * @param published *optional* the published distribution, trust bonus scores and contributions
+   * @returns VerificationResult
    */
   async verify(
     grantRoundContributions: GrantRoundContributions,
     trustBonusMetaPtr: string,
-    hash: string
-  ): Promise<boolean> {
-    const _options = {
+    hash: string,
+    published: PublishedDistribution = {}
+  ): Promise<VerificationResult> {
+    // the trust bonus scores the distribution was published with
+    const publishedScores =
+      published.trustBonusScores ||
+      (trustBonusMetaPtr ? await new IpfsTrustScoreProvider(trustBonusMetaPtr).getScores() : undefined);
+
+    // the hash is the merkle root, so the payouts are always required
+    const clrArgs = {
+      contributions: grantRoundContributions,
+      ...this._options,
       trustBonusMetaPtr: trustBonusMetaPtr,
-    };
+      includePayouts: true,
+    } as CLRArgs & InitArgs;
+
+    // recalculate from the published scores unless we were given our own
+    if (!clrArgs.trustBonusScores) clrArgs.trustBonusScores = publishedScores;
+
+    // recalculate and compare
+    const distribution = await this._calculate(clrArgs);
+
+    return getVerificationResult(hash, distribution, grantRoundContributions, clrArgs.trustBonusScores || [], {
+      ...published,
+      trustBonusScores: publishedScores,
+    });
+  }
+
+  /**
+   * Calculates the distribution (and optionally the report and payout merkle) for fully resolved args
+   *
+   * @param clrArgs the calculation args merged with the options
+   * @returns GrantsDistribution
+   */
+  async _calculate(clrArgs: CLRArgs & InitArgs): Promise<GrantsDistribution> {
+    // retrieve the calcAlgo from the supplied options
+    const calcAlgo = clrArgs.calcAlgo;
+    const grantRoundContributions = clrArgs.contributions;
+
+    // calculate distribution based on contributions
+    const distribution: GrantsDistribution = await calcAlgo(clrArgs);
+
+    // record the grantRound for identification
+    distribution.grantRound = grantRoundContributions.grantRound;
+
+    // explain how each grant arrived at its match
+    if (clrArgs.includeReport) {
+      distribution.report = await getDistributionReport(calcAlgo, clrArgs, distribution);
+    }
 
-    const distribution = await this.calculate(grantRoundContributions, _options);
-    if (distribution.hash == hash) {
-      console.log('####################\n DISTRIBUTION VERIFIED\n####################');
-      return true;
+    // check if the calculation should include payouts (we cannot create a merkle without any contributions)
+    if (grantRoundContributions.totalPot && clrArgs.includePayouts) {
+      // generate the merkle tree and record the root (along with the rounded distribution used to generate it)
+      Object.assign(
+        distribution,
+        getPayoutMerkle(
+          getPayoutDistribution(distribution.distribution),
+          getTotalPotUnits(grantRoundContributions),
+          grantRoundContributions.matchingTokenDecimals,
+          clrArgs
+        )
+      );
     }
 
-    console.log(
-      `####################\n
-      ERROR: DISTRIBUTION DOES NOT MATCH. \n
-      Input Hash: ${hash} \n
-      Calculated Hash: ${distribution.hash} \n
-      ####################`
-    );
-    return false;
+    // return distribution details (<GrantsDistribution>)
+    return distribution;
   }
 }
 
-// ======= FOR FUTURE ========
+/**
+ * Flattens a value into the primitives (and functions) it holds, along with the names of every property
+ *
+ * @param value
+ * @returns values to compare
+ */
+const getCacheKey = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value.flatMap(getCacheKey);
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([name, entry]) => [name, ...getCacheKey(entry)]);
+  }
+
+  return [value];
+};
+
+/**
+ * Combines any grants which have the same payout address so that each payout address appears only once
+ *
+ * @param grantMatches GrantMatch[] (may come from several rounds paying out in the same token)
+ * @returns PayoutMatch[]
+ */
+const getPayoutDistribution = (grantMatches: GrantMatch[]): PayoutMatch[] => {
+  // move distribution into a payout obj
+  const payoutObj: PayoutMatches = {};
+
+  // construct the payout obj by combining any grants which have the same payout address
+  grantMatches.forEach((grantMatch: GrantMatch) => {
+    // each payout address must only appear once in the payoutDistribution
+    let grantIds = [grantMatch.grantId];
+    // check if the payout address is already recorded
+    if (payoutObj[grantMatch.address]) {
+      // get the current set of grantIds
+      const currentGrantIds = payoutObj[grantMatch.address].grantIds;
+      // add the set of grantIds to the arr and dedupe (spreading a Set is lost when compiled to es5, eg. by hardhat)
+      grantIds = Array.from(new Set(grantIds.concat(currentGrantIds)));
+    }
+    // ensure the payout address has a match to claim
+    if (grantMatch.matchUnits ? !BigNumber.from(grantMatch.matchUnits).isZero() : grantMatch.match) {
+      const currentPayout = payoutObj[grantMatch.address];
+      // sum the total match for each payout address
+      payoutObj[grantMatch.address] = {
+        grantIds: grantIds,
+        address: grantMatch.address,
+        match: grantMatch.match + (currentPayout?.match || 0),
+      } as PayoutMatch;
+      // sum the exact fixed-point match alongside it
+      if (grantMatch.matchUnits) {
+        payoutObj[grantMatch.address].matchUnits = BigNumber.from(grantMatch.matchUnits)
+          .add(currentPayout?.matchUnits || 0)
+          .toString();
+      }
+    }
+  });
+
+  return Object.values(payoutObj) as PayoutMatch[];
+};
+
+/**
+ * Rounds a payout distribution to whole token units and builds its merkle tree
+ *
+ * @param payoutDistribution PayoutMatch[]
+ * @param totalPotUnits the pot in the matching tokens smallest unit (the payouts never sum to more)
+ * @param matchingTokenDecimals the number of decimals used by the matching token
+ * @param options dustThreshold and remainderAddress
+ * @returns the rounded payoutDistribution and its adjustments, with the merkle and hash (or a merkleError when there
+ * is nothing to pay out)
+ */
+const getPayoutMerkle = (
+  payoutDistribution: PayoutMatch[],
+  totalPotUnits: BigNumber,
+  matchingTokenDecimals: number,
+  options: RoundingOptions
+): {
+  payoutDistribution: PayoutMatch[];
+  payoutAdjustments: PayoutAdjustment[];
+  merkle?: MerkleDistributorInfo;
+  hash?: string;
+  merkleError?: string;
+} => {
+  // every leaf needs a whole, non-zero amount
+  const { payoutDistribution: rounded, adjustments } = roundPayouts(
+    payoutDistribution,
+    totalPotUnits,
+    matchingTokenDecimals,
+    options
+  );
+
+  // prevent attempting to generate a merkle tree without any leafs
+  if (rounded.length > 0) {
+    // generate the merkle tree and record the root
+    const merkle = generateMerkle(rounded, matchingTokenDecimals);
+
+    return { payoutDistribution: rounded, payoutAdjustments: adjustments, merkle: merkle, hash: getMerkleRoot(merkle) };
+  }
 
-// how to store the distribution curve as opposed to
-// ability to pass in multiple GrantRound and generate total distribution
+  // empty state when we can't create a tree
+  return {
+    payoutDistribution: rounded,
+    payoutAdjustments: adjustments,
+    merkleError: 'Missing required context to build tree',
+  };
+};
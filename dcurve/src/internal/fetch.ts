@@ -1,17 +1,50 @@
 'use strict';
 
-import { Contract } from 'ethers';
-import { GrantRoundFetchArgs } from '../../src/types';
+import { BigNumber, Contract, Event } from 'ethers';
+import { GrantRoundFetchArgs, Provider } from '../../src/types';
 import { GrantRoundContributions, Contribution } from '@dgrants/types';
 import { abi as GRANT_REGISTRY_ABI } from '@dgrants/contracts/artifacts/contracts/GrantRegistry.sol/GrantRegistry.json';
 import { abi as GRANT_ROUND_ABI } from '@dgrants/contracts/artifacts/contracts/GrantRound.sol/GrantRound.json';
 import { abi as GRANT_ROUND_MANAGER_ABI } from '@dgrants/contracts/artifacts/contracts/GrantRoundManager.sol/GrantRoundManager.json';
-import { formatUnits } from 'ethers/lib/utils';
+import { fetchJson, formatUnits, getAddress } from 'ethers/lib/utils';
 
 const ERC20_ABI = ['function balanceOf(address) view returns (uint)'];
 
+// max number of entities the subgraph will return in a single request
+const SUBGRAPH_PAGE_SIZE = 1000;
+
+// GrantDonation entity as indexed by the subgraph
+type GrantDonationSubgraph = {
+  id: string;
+  grantId: string;
+  tokenIn: string;
+  donationAmount: string;
+  from: string;
+  hash: string;
+  rounds: string[];
+  lastUpdatedBlockNumber: number;
+};
+
+// the details we need from each GrantDonation regardless of where it was read from
+type GrantDonation = {
+  grantId: number;
+  tokenIn: string;
+  donationAmount: BigNumber;
+  rounds: string[];
+  from: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+};
+
 /**
  * Returns GrantRoundContributions describing the round and any contributions
+ *
+ * Only donations made while the round was active (`startTime <= block.timestamp < endTime`) are included. The
+ * donations are read from `args.subgraphUrl` when provided (falling back to the chain for anything it hasn't indexed
+ * yet) and from the chain in batches of `args.blockBatchSize` blocks otherwise. A failed subgraph request throws,
+ * leave out `args.subgraphUrl` to read everything from the chain instead.
+ *
  * @param {GrantRoundFetchArgs}
  */
 export const fetch = async (args: GrantRoundFetchArgs) => {
@@ -23,58 +56,240 @@ export const fetch = async (args: GrantRoundFetchArgs) => {
   const roundManager = new Contract(args.grantRoundManager, GRANT_ROUND_MANAGER_ABI, args.provider);
 
   // set-up
-  const [allGrants, matchingToken, donationToken, grantDonations] = await Promise.all([
-    registry.getAllGrants(), // TODO: https://github.com/dcgtc/dgrants/pull/91#discussion_r692567688
+  const [matchingToken, donationToken, startTime, endTime, latestBlock] = await Promise.all([
     round.matchingToken(),
     roundManager.donationToken(),
-    roundManager.queryFilter(roundManager.filters.GrantDonation()), // TODO: https://github.com/dcgtc/dgrants/pull/91#discussion_r692569977
+    round.startTime(),
+    round.endTime(),
+    args.toBlock ?? args.provider.getBlockNumber(),
   ]);
 
-  // collect the grants into a grantId->payoutAddress obj
-  const grantsDict = allGrants.reduce((grants: Record<string, string>, grant: Record<string, string>, key: number) => {
-    grants[key.toString()] = grant.payee;
+  // find the blocks the round was active between
+  const fromBlock = await getFirstBlockAfter(args.provider, startTime.toNumber(), args.fromBlock || 0, latestBlock);
+  const toBlock = (await getFirstBlockAfter(args.provider, endTime.toNumber(), fromBlock, latestBlock)) - 1;
 
-    return grants;
-  }, {});
+  // collect the GrantDonations by `${txHash}-${logIndex}` so that each event is only counted once
+  const grantDonations: Record<string, GrantDonation> = {};
 
-  // get token info
-  const matchingTokenContract = new Contract(matchingToken, ERC20_ABI, args.provider);
+  // the round has started
+  if (fromBlock <= toBlock) {
+    // attempt to use the subgraph first
+    let nextBlock = fromBlock;
+    if (args.subgraphUrl) {
+      (await getSubgraphDonations(args.subgraphUrl, fromBlock, toBlock)).forEach((grantDonation) => {
+        // pick up from the most recent block collected
+        nextBlock = Math.max(nextBlock, grantDonation.blockNumber);
+        grantDonations[`${grantDonation.txHash}-${grantDonation.logIndex}`] = grantDonation;
+      });
+    }
+
+    // collect the remainder of the blocks from the chain
+    (await getChainDonations(roundManager, nextBlock, toBlock, args.blockBatchSize)).forEach((grantDonation) => {
+      grantDonations[`${grantDonation.txHash}-${grantDonation.logIndex}`] = grantDonation;
+    });
+  }
+
+  // collect the payee for every grant which received a donation
+  const grantIds = Array.from(new Set(Object.values(grantDonations).map((grantDonation) => grantDonation.grantId)));
+  const grantPayees: Record<number, string> = {};
+  void (await Promise.all(
+    grantIds.map(async (grantId) => {
+      grantPayees[grantId] = await registry.getGrantPayee(grantId);
+    })
+  ));
 
   // fetch & ignore Contributions
-  const contributions: Contribution[] = [];
+  const grantRound = getAddress(args.grantRound);
+  const ignoredGrants = args.ignore?.grants || [];
+  const ignoredContributors = (args.ignore?.contributionAddress || []).map((address) => getAddress(address));
 
   // records matching contributions in the expected format (Contribution[])
-  grantDonations.forEach(async (contribution) => {
-    // get tx details to pull contributor details from
-    const tx = await contribution.getTransaction();
+  const contributions: Contribution[] = Object.values(grantDonations)
+    // only include transactions from this grantRound which havent been ignored
+    .filter((grantDonation) => {
+      const inRound = grantDonation.rounds.includes(grantRound);
+      const isIgnoredGrant = ignoredGrants.includes(grantDonation.grantId);
+      const isIgnoredContributor = ignoredContributors.includes(grantDonation.from);
 
-    // check that the contribution is valid
-    const grantId = contribution?.args?.grantId.toNumber();
-    const inRound = contribution?.args?.rounds.includes(args.grantRound);
-    const isIgnoredGrant = args?.ignore?.grants?.includes(grantId);
-    const isIgnoredContributor = args?.ignore?.contributionAddress?.indexOf(tx.from) !== -1;
+      return inRound && !isIgnoredGrant && !isIgnoredContributor;
+    })
+    // order by position on chain so that every calculation sums the contributions in the same order
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    .map((grantDonation) => {
+      return {
+        grantId: grantDonation.grantId,
+        amount: parseFloat(formatUnits(grantDonation.donationAmount, args.supportedTokens[donationToken].decimals)),
+        tokenIn: grantDonation.tokenIn,
+        grantAddress: grantPayees[grantDonation.grantId],
+        address: grantDonation.from,
+        inRounds: grantDonation.rounds,
+        txHash: grantDonation.txHash,
+        blockNumber: grantDonation.blockNumber,
+        logIndex: grantDonation.logIndex,
+      };
+    });
 
-    // only include transactions from this grantRound which havent been ignored
-    if (inRound && !isIgnoredGrant && !isIgnoredContributor) {
-      contributions.push({
-        grantId: grantId,
-        amount: parseFloat(
-          formatUnits(contribution?.args?.donationAmount, args.supportedTokens[donationToken].decimals)
-        ),
-        tokenIn: contribution?.args?.tokenIn,
-        grantAddress: grantsDict[grantId],
-        address: tx.from,
-      });
-    }
-  });
+  // the pot is the matchingToken balance held by the grantRound
+  const matchingTokenContract = new Contract(matchingToken, ERC20_ABI, args.provider);
+  const totalPotUnits = await matchingTokenContract.balanceOf(args.grantRound);
 
   // return contributions as GrantRoundContributions
   return {
     grantRound: args.grantRound,
-    totalPot: parseFloat(
-      formatUnits(await matchingTokenContract.balanceOf(args.grantRound), args.supportedTokens[matchingToken].decimals)
-    ),
+    totalPot: parseFloat(formatUnits(totalPotUnits, args.supportedTokens[matchingToken].decimals)),
+    totalPotUnits: totalPotUnits.toString(),
+    matchingToken: matchingToken,
     matchingTokenDecimals: args.supportedTokens[matchingToken].decimals,
     contributions: contributions,
+    // record what the snapshot covers so that it can be fetched again
+    fromBlock: fromBlock,
+    toBlock: toBlock,
+    ignore: {
+      contributionAddress: ignoredContributors,
+      grants: ignoredGrants,
+    },
   } as GrantRoundContributions;
 };
+
+/**
+ * Binary searches for the first block mined at or after the given timestamp
+ *
+ * @param provider
+ * @param timestamp unix timestamp (seconds)
+ * @param low first block to consider
+ * @param high last block to consider
+ * @returns the block number (or high + 1 when no block in the range reaches the timestamp)
+ */
+const getFirstBlockAfter = async (provider: Provider, timestamp: number, low: number, high: number) => {
+  let result = high + 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getBlock(mid)).timestamp >= timestamp) {
+      result = mid;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Reads every GrantDonation between fromBlock and toBlock (inclusive) from the subgraph
+ *
+ * The subgraph identifies each donation by `${txHash}-${logIndex}`. Pages are read in `id` order, each starting after
+ * the last id of the one before (hosted graph nodes refuse a `skip` above 5000).
+ *
+ * @param subgraphUrl
+ * @param fromBlock
+ * @param toBlock
+ * @returns GrantDonation[]
+ */
+const getSubgraphDonations = async (subgraphUrl: string, fromBlock: number, toBlock: number) => {
+  const grantDonations: GrantDonation[] = [];
+
+  // page through the results
+  for (let lastId = ''; ; ) {
+    // make the request (fetchJson POSTs the body and throws on a failed response)
+    let json;
+    try {
+      json = await fetchJson(
+        subgraphUrl,
+        JSON.stringify({
+          query: `{
+            grantDonations(first: ${SUBGRAPH_PAGE_SIZE}, orderBy: id, where: {id_gt: "${lastId}", lastUpdatedBlockNumber_gte: ${fromBlock}, lastUpdatedBlockNumber_lte: ${toBlock}}) {
+              id
+              grantId
+              tokenIn
+              donationAmount
+              from
+              hash
+              rounds
+              lastUpdatedBlockNumber
+            }
+          }`,
+        })
+      );
+    } catch (err) {
+      throw new Error(`The subgraph request to ${subgraphUrl} failed: ${(err as Error).message}`);
+    }
+    if (json.errors?.length) {
+      const messages = json.errors.map((error: { message: string }) => error.message).join('; ');
+      throw new Error(`The subgraph at ${subgraphUrl} returned an error: ${messages}`);
+    }
+    const page: GrantDonationSubgraph[] = json.data.grantDonations;
+
+    // convert each entity
+    page.forEach((grantDonation) => {
+      const logIndex = Number(grantDonation.id.split('-')[1]);
+      if (isNaN(logIndex)) throw new Error(`Unable to read the logIndex from ${grantDonation.id}`);
+
+      grantDonations.push({
+        grantId: BigNumber.from(grantDonation.grantId).toNumber(),
+        tokenIn: getAddress(grantDonation.tokenIn),
+        donationAmount: BigNumber.from(grantDonation.donationAmount),
+        rounds: grantDonation.rounds.map((address: string) => getAddress(address)),
+        from: getAddress(grantDonation.from),
+        txHash: grantDonation.hash,
+        blockNumber: grantDonation.lastUpdatedBlockNumber,
+        logIndex: logIndex,
+      });
+    });
+
+    // stop after the last page
+    if (page.length < SUBGRAPH_PAGE_SIZE) return grantDonations;
+    lastId = page[page.length - 1].id;
+  }
+};
+
+/**
+ * Reads every GrantDonation between fromBlock and toBlock (inclusive) from the chain
+ *
+ * @param roundManager GrantRoundManager contract
+ * @param fromBlock
+ * @param toBlock
+ * @param blockBatchSize *optional* max number of blocks to query at once (queries the whole range when omitted)
+ * @returns GrantDonation[]
+ */
+const getChainDonations = async (
+  roundManager: Contract,
+  fromBlock: number,
+  toBlock: number,
+  blockBatchSize?: number
+) => {
+  const grantDonations: GrantDonation[] = [];
+  // each transaction can donate to many grants, only fetch each once
+  const senders: Record<string, Promise<string>> = {};
+
+  // work through the range one batch at a time (or all at once when no batch size is set)
+  const batchSize = blockBatchSize && blockBatchSize > 0 ? blockBatchSize : toBlock - fromBlock + 1;
+  for (let startBlock = fromBlock; startBlock <= toBlock; startBlock += batchSize) {
+    const endBlock = Math.min(startBlock + batchSize - 1, toBlock);
+
+    // get the donations in this batch
+    const events: Event[] = await roundManager.queryFilter(roundManager.filters.GrantDonation(), startBlock, endBlock);
+
+    // resolve the contributor for each donation
+    void (await Promise.all(
+      events.map(async (event) => {
+        // get tx details to pull contributor details from
+        senders[event.transactionHash] =
+          senders[event.transactionHash] || event.getTransaction().then((tx) => getAddress(tx.from));
+
+        grantDonations.push({
+          grantId: event.args?.grantId.toNumber(),
+          tokenIn: getAddress(event.args?.tokenIn),
+          donationAmount: event.args?.donationAmount,
+          rounds: event.args?.rounds.map((address: string) => getAddress(address)),
+          from: await senders[event.transactionHash],
+          txHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+        });
+      })
+    ));
+  }
+
+  return grantDonations;
+};
@@ -0,0 +1,113 @@
+import { BigNumber } from 'ethers';
+import { formatUnits } from 'ethers/lib/utils';
+import { GrantRoundContributions } from '@dgrants/types';
+import { GrantMatch } from '../types';
+
+// trust bonus scores are carried as 18 decimal fixed-point numbers
+export const WAD = BigNumber.from(10).pow(18);
+
+/**
+ * Converts a human readable number into an integer amount of the tokens smallest unit.
+ *
+ * `toExponential` gives the shortest decimal digits that uniquely identify the float and is specified identically
+ * across runtimes, so the same float will always produce the same BigNumber (and `0.3` becomes exactly `0.3`).
+ * Digits beyond `decimals` are truncated.
+ *
+ * @param value human readable amount
+ * @param decimals number of decimals used by the token
+ * @returns amount in the tokens smallest unit
+ */
+export const toUnits = (value: number, decimals: number): BigNumber => {
+  if (!isFinite(value)) {
+    throw new Error(`Cannot convert ${value} to fixed-point`);
+  }
+
+  // split into significant digits and a power of ten (eg. 0.3 -> "3", -1)
+  const [mantissa, exponent] = value.toExponential().split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const shift = Number(exponent) - fraction.length + decimals;
+  const digits = BigNumber.from(whole + fraction);
+
+  // scale the digits into the tokens smallest unit
+  return shift >= 0 ? digits.mul(BigNumber.from(10).pow(shift)) : digits.div(BigNumber.from(10).pow(-shift));
+};
+
+/**
+ * Converts an integer amount of the tokens smallest unit back into a human readable number
+ *
+ * @param units amount in the tokens smallest unit
+ * @param decimals number of decimals used by the token
+ * @returns human readable amount
+ */
+export const fromUnits = (units: BigNumber, decimals: number): number => {
+  return parseFloat(formatUnits(units, decimals));
+};
+
+/**
+ * Integer square root (floor) using Newton's method
+ *
+ * @param value non-negative integer
+ * @returns floor(sqrt(value))
+ */
+export const sqrt = (value: BigNumber): BigNumber => {
+  if (value.lt(0)) throw new Error('Cannot take the square root of a negative number');
+  if (value.lt(2)) return value;
+
+  // start from a guess that is guaranteed to be >= the root and converge downwards
+  let x0 = value;
+  let x1 = value.div(2).add(1);
+  while (x1.lt(x0)) {
+    x0 = x1;
+    x1 = x1.add(value.div(x1)).div(2);
+  }
+
+  return x0;
+};
+
+/**
+ * Returns the rounds pot as an integer amount of the matching tokens smallest unit
+ *
+ * @param grantRoundContributions
+ * @returns totalPot in the matching tokens smallest unit
+ */
+export const getTotalPotUnits = (grantRoundContributions: GrantRoundContributions): BigNumber => {
+  // prefer the exact on-chain balance when it is available
+  return grantRoundContributions.totalPotUnits
+    ? BigNumber.from(grantRoundContributions.totalPotUnits)
+    : toUnits(grantRoundContributions.totalPot, grantRoundContributions.matchingTokenDecimals);
+};
+
+/**
+ * Scales every `matchUnits` in the distribution down so that they sum to no more than `totalPotUnits`
+ * and fills in the human readable `match` for each grant.
+ *
+ * Each share is rounded down, so the summed payouts can never exceed the pot.
+ *
+ * @param distribution GrantMatch[] with `matchUnits` set
+ * @param totalPotUnits the rounds pot in the matching tokens smallest unit
+ * @param decimals number of decimals used by the matching token
+ * @returns true if the round has saturated
+ */
+export const normalizeMatchUnits = (distribution: GrantMatch[], totalPotUnits: BigNumber, decimals: number) => {
+  // record how much of the totalPot we have allocated
+  const totalMatch = distribution.reduce(
+    (total, grantMatch) => total.add(grantMatch.matchUnits || 0),
+    BigNumber.from(0)
+  );
+
+  // this means the round has saturated and we have enough
+  // contributions to ensure all funds are distributed
+  const hasSaturated = totalMatch.gt(totalPotUnits);
+
+  distribution.forEach((grantMatch: GrantMatch) => {
+    let matchUnits = BigNumber.from(grantMatch.matchUnits || 0);
+    // normalize match if round has saturated
+    if (hasSaturated) {
+      matchUnits = matchUnits.mul(totalPotUnits).div(totalMatch);
+    }
+    grantMatch.matchUnits = matchUnits.toString();
+    grantMatch.match = fromUnits(matchUnits, decimals);
+  });
+
+  return hasSaturated;
+};
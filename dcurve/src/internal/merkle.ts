@@ -1,12 +1,19 @@
-import { parseUnits } from 'ethers/lib/utils';
+import { BigNumber, BigNumberish } from 'ethers';
+import { getAddress } from 'ethers/lib/utils';
 import {
   MerkleDistributorInfo,
   NewFormat,
   parseBalanceMap,
 } from '@dgrants/utils/src/merkle-distributor/parse-balance-map';
-import { PayoutMatch } from '../types';
+import {
+  TokenMerkleDistributorInfo,
+  parseTokenBalanceMap,
+} from '@dgrants/utils/src/merkle-distributor/parse-token-balance-map';
+import { TokenBalanceTree } from '@dgrants/utils/src/merkle-distributor/token-balance-tree';
+import { PayoutMatch, TokenPayoutDistribution } from '../types';
+import { toUnits } from './fixed';
 
-export type { MerkleDistributorInfo };
+export type { MerkleDistributorInfo, TokenMerkleDistributorInfo };
 
 /**
  * Generates hash of the GrantsDistribution distribution
@@ -23,7 +30,11 @@ export const generateMerkle = (distribution: PayoutMatch[], matchingTokenDecimal
   distribution.forEach((payoutMatch: PayoutMatch) => {
     merkleInput.push({
       address: payoutMatch.address,
-      earnings: parseUnits(payoutMatch.match.toString(), matchingTokenDecimals).toHexString(),
+      // prefer the exact amount (set once the payouts are rounded) over converting the float
+      earnings: (payoutMatch.matchUnits
+        ? BigNumber.from(payoutMatch.matchUnits)
+        : toUnits(payoutMatch.match, matchingTokenDecimals)
+      ).toHexString(),
       reasons: '',
     });
   });
@@ -99,3 +110,66 @@ export const getMerkleProof = (address: string, merkleDistributorInfo: MerkleDis
     return [];
   }
 };
+
+/**
+ * Generates a single merkle tree paying out in several tokens, with a leaf for each payee in each token
+ * @param payouts - TokenPayoutDistribution[] (one per token)
+ * @returns {TokenMerkleDistributorInfo} - merkle tree of every payout
+ */
+export const generateTokenMerkle = (payouts: TokenPayoutDistribution[]) => {
+  // each payee gets one leaf per token they are owed
+  const merkleInput = payouts.flatMap((tokenPayouts) => {
+    return tokenPayouts.payoutDistribution.map((payoutMatch: PayoutMatch) => {
+      return {
+        address: payoutMatch.address,
+        token: tokenPayouts.matchingToken,
+        // prefer the exact amount (set once the payouts are rounded) over converting the float
+        earnings: (payoutMatch.matchUnits
+          ? BigNumber.from(payoutMatch.matchUnits)
+          : toUnits(payoutMatch.match, tokenPayouts.matchingTokenDecimals)
+        ).toHexString(),
+      };
+    });
+  });
+
+  // parse and return the tree
+  return parseTokenBalanceMap(merkleInput);
+};
+
+/**
+ * Gets a proof for a payees claim in one token from the provided multi-token merkle tree
+ * @param address - address to find in the claims
+ * @param token - token the claim is paid in
+ * @param tokenMerkleDistributorInfo - TokenMerkleDistributorInfo
+ * @returns {string[]} - merkle proof for the claim
+ */
+export const getTokenMerkleProof = (
+  address: string,
+  token: string,
+  tokenMerkleDistributorInfo: TokenMerkleDistributorInfo | undefined
+): string[] => {
+  // when the payee has a claim in this token
+  const claim = tokenMerkleDistributorInfo?.claims[getAddress(address)]?.[getAddress(token)];
+
+  return claim ? claim.proof : [];
+};
+
+/**
+ * Checks a claim against a multi-token merkle root
+ * @param merkleRoot - root of the TokenMerkleDistributorInfo
+ * @param claim - the claims index, account, token, amount and proof
+ * @returns {boolean} - true when the claim is in the tree
+ */
+export const verifyTokenMerkleProof = (
+  merkleRoot: string,
+  claim: { index: number; account: string; token: string; amount: BigNumberish; proof: string[] }
+): boolean => {
+  return TokenBalanceTree.verifyProof(
+    claim.index,
+    claim.account,
+    claim.token,
+    BigNumber.from(claim.amount),
+    claim.proof.map((item) => Buffer.from(item.substr(2), 'hex')),
+    Buffer.from(merkleRoot.substr(2), 'hex')
+  );
+};
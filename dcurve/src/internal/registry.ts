@@ -0,0 +1,136 @@
+import { MatchingAlgorithm } from '@dgrants/types';
+import { AlgorithmDefinition, AlgorithmParams, InitArgs, ResolvedAlgorithm } from '../types';
+import { handle as linear } from './calc/linear';
+import { handle as pairwise, DEFAULT_PAIRWISE_THRESHOLD } from './calc/pairwise';
+
+// algorithm used by rounds which don't set a matchingAlgorithm
+export const DEFAULT_MATCHING_ALGORITHM = 'linear';
+
+// every registered version of each algorithm (name -> definitions in ascending version order)
+const registry: Record<string, AlgorithmDefinition[]> = {};
+
+/**
+ * Adds an algorithm (or a new version of one) to the registry
+ *
+ * Versions are immutable - a round which pinned a version must always be calculated with the same defaults.
+ *
+ * @param definition AlgorithmDefinition
+ */
+export const registerAlgorithm = (definition: AlgorithmDefinition) => {
+  const versions = registry[definition.name] || [];
+  if (versions.some(({ version }) => version === definition.version)) {
+    throw new Error(`${definition.name}@${definition.version} is already registered`);
+  }
+
+  registry[definition.name] = [...versions, definition].sort((a, b) => a.version - b.version);
+};
+
+/**
+ * @returns every registered algorithm definition
+ */
+export const getAlgorithms = (): AlgorithmDefinition[] => {
+  return Object.values(registry).flat();
+};
+
+/**
+ * Returns a registered algorithm
+ *
+ * @param name registered algorithm name
+ * @param version *optional* pinned version (defaults to the latest)
+ * @returns AlgorithmDefinition
+ */
+export const getAlgorithm = (name: string, version?: number): AlgorithmDefinition => {
+  const versions = registry[name];
+  if (!versions) throw new Error(`Unknown matching algorithm: ${name}`);
+
+  // use the latest version unless one was pinned
+  const definition =
+    version === undefined
+      ? versions[versions.length - 1]
+      : versions.find((definition) => definition.version === version);
+  if (!definition) throw new Error(`Unknown version of ${name}: ${version}`);
+
+  return definition;
+};
+
+/**
+ * Resolves a rounds `matchingAlgorithm` (from its metadata) to the algorithm and params to calculate with
+ *
+ * @param matchingAlgorithm `name`, `name@version` or `{ name, version?, params? }` (defaults to linear)
+ * @returns ResolvedAlgorithm
+ */
+export const resolveMatchingAlgorithm = (matchingAlgorithm?: MatchingAlgorithm): ResolvedAlgorithm => {
+  // normalise the shorthand forms
+  let selection: Exclude<MatchingAlgorithm, string> = { name: DEFAULT_MATCHING_ALGORITHM };
+  if (typeof matchingAlgorithm === 'string') {
+    const [name, version] = matchingAlgorithm.trim().split('@');
+    selection = { name: name, version: version === undefined ? undefined : Number(version) };
+  } else if (matchingAlgorithm) {
+    selection = matchingAlgorithm;
+  }
+
+  const definition = getAlgorithm(selection.name, selection.version);
+
+  // only the params the algorithm exposes can be overridden
+  const params: AlgorithmParams = { ...definition.defaults };
+  Object.entries(selection.params || {}).forEach(([param, value]) => {
+    if (!definition.params.includes(param as keyof AlgorithmParams)) {
+      throw new Error(`${definition.name}@${definition.version} does not accept the param: ${param}`);
+    }
+    if (typeof value !== (param === 'fixedPoint' ? 'boolean' : 'number')) {
+      throw new Error(`Invalid value for ${param}: ${value}`);
+    }
+    Object.assign(params, { [param]: value });
+  });
+
+  return {
+    name: definition.name,
+    version: definition.version,
+    calcAlgo: definition.calcAlgo,
+    params: params,
+  };
+};
+
+/**
+ * Resolves a rounds `matchingAlgorithm` straight to the options to construct a CLR with
+ *
+ * @param matchingAlgorithm `name`, `name@version` or `{ name, version?, params? }` (defaults to linear)
+ * @returns InitArgs
+ */
+export const getMatchingAlgorithmOptions = (matchingAlgorithm?: MatchingAlgorithm): InitArgs => {
+  const { calcAlgo, params } = resolveMatchingAlgorithm(matchingAlgorithm);
+
+  return {
+    calcAlgo: calcAlgo,
+    ...params,
+  };
+};
+
+// --------- REGISTERED ALGORITHMS
+
+registerAlgorithm({
+  name: 'linear',
+  version: 1,
+  calcAlgo: linear,
+  defaults: {},
+  params: ['fixedPoint', 'matchCap', 'defaultTrustScore'],
+  description: 'Linear QF, sum of the square root of contributions squared',
+});
+
+registerAlgorithm({
+  name: 'pairwise',
+  version: 1,
+  calcAlgo: pairwise,
+  defaults: { pairwiseThreshold: DEFAULT_PAIRWISE_THRESHOLD },
+  params: ['fixedPoint', 'pairwiseThreshold', 'matchCap', 'defaultTrustScore'],
+  description: 'Pairwise QF, discounts pairs of contributors who fund the same grants',
+});
+
+registerAlgorithm({
+  name: 'capped-linear',
+  version: 1,
+  calcAlgo: linear,
+  defaults: { matchCap: 0.1 },
+  params: ['fixedPoint', 'matchCap', 'defaultTrustScore'],
+  description: 'Linear QF with no grant receiving more than 10% of the pot (by default)',
+});
@@ -0,0 +1,351 @@
+import {
+  CalcAlgo,
+  CLRArgs,
+  ContributorReport,
+  DistributionReport,
+  GrantMatch,
+  GrantReport,
+  GrantsDistribution,
+  ReportFormat,
+} from '../types';
+import { applyMatchCap } from './cap';
+import { normalizeMatch } from './utils';
+
+/**
+ * @notice Explains how every grant in the distribution arrived at its match.
+ *
+ * The breakdown comes from the algorithms `explain` step. Each contributors `marginalMatch` is the difference between
+ * the grants final match and the match it would have received without that contribution, after the round is
+ * renormalized and the `matchCap` is reapplied. The report is always calculated in floating point, so with
+ * `fixedPoint` it can differ from `matchUnits` by rounding.
+ *
+ * @param calcAlgo the algorithm which produced the distribution
+ * @param clrArgs the args the distribution was calculated with (including the resolved trust bonus scores)
+ * @param distribution GrantsDistribution
+ * @returns DistributionReport
+ */
+export const getDistributionReport = async (
+  calcAlgo: CalcAlgo,
+  clrArgs: CLRArgs,
+  distribution: GrantsDistribution
+): Promise<DistributionReport> => {
+  // reports are only available for algorithms which can explain themselves
+  if (!calcAlgo.explain) throw new Error('The calcAlgo does not support reports (missing `explain`)');
+
+  // unpack grantRoundContributions to local state
+  const { grantRound, totalPot } = clrArgs.contributions;
+
+  // break the calculation down per grant
+  const explanations = await calcAlgo.explain(clrArgs);
+
+  // record every grants match before normalization
+  const preNormalizationMatches: Record<number, number> = {};
+  explanations.forEach((explanation) => {
+    preNormalizationMatches[explanation.grantId] = explanation.preNormalizationMatch;
+  });
+  const totalPreNormalizationMatch = explanations.reduce((total, explanation) => {
+    return total + explanation.preNormalizationMatch;
+  }, 0);
+  const saturationFactor = getSaturationFactor(totalPreNormalizationMatch, totalPot);
+
+  // index the final matches by grantId
+  const grantMatches: Record<number, GrantMatch> = {};
+  distribution.distribution.forEach((grantMatch) => {
+    grantMatches[grantMatch.grantId] = grantMatch;
+  });
+
+  const grants: GrantReport[] = explanations.map((explanation) => {
+    const grantMatch = grantMatches[explanation.grantId];
+
+    // measure each contributors part in the match
+    const contributions: ContributorReport[] = explanation.contributions
+      .map((contribution) => {
+        const matchWithout = getMatchWithout(
+          explanation.grantId,
+          contribution.leaveOneOut,
+          preNormalizationMatches,
+          totalPreNormalizationMatch,
+          clrArgs
+        );
+
+        return {
+          address: contribution.address,
+          amount: contribution.amount,
+          weight: contribution.weight,
+          weightedAmount: contribution.amount * contribution.weight,
+          marginalMatch: grantMatch.match - matchWithout,
+        };
+      })
+      .sort((a, b) => b.marginalMatch - a.marginalMatch);
+
+    return {
+      grantId: explanation.grantId,
+      address: explanation.address,
+      contributors: contributions.length,
+      sumOfContributions: contributions.reduce((total, contribution) => total + contribution.amount, 0),
+      sumOfWeightedContributions: contributions.reduce((total, contribution) => total + contribution.weightedAmount, 0),
+      sumOfSqrtContributions: contributions.reduce(
+        (total, contribution) => total + contribution.weightedAmount ** 0.5,
+        0
+      ),
+      preNormalizationMatch: explanation.preNormalizationMatch,
+      saturationFactor: saturationFactor,
+      match: grantMatch.match,
+      matchUnits: grantMatch.matchUnits,
+      capped: grantMatch.capped,
+      contributions: contributions,
+    };
+  });
+
+  return {
+    grantRound: grantRound,
+    totalPot: totalPot,
+    totalPreNormalizationMatch: totalPreNormalizationMatch,
+    saturationFactor: saturationFactor,
+    hasSaturated: distribution.hasSaturated,
+    trustBonusMetaPtr: distribution.trustBonusMetaPtr,
+    grants: grants,
+  };
+};
+
+/**
+ * Exports the report in the given format
+ *
+ * @param report DistributionReport
+ * @param format json, csv (one row per grant) or markdown
+ * @returns the formatted report
+ */
+export const formatReport = (report: DistributionReport, format: ReportFormat = 'json'): string => {
+  switch (format) {
+    case 'json':
+      return reportToJson(report);
+    case 'csv':
+      return reportToCsv(report);
+    case 'markdown':
+      return reportToMarkdown(report);
+    default:
+      throw new Error(`Unknown report format: ${format}`);
+  }
+};
+
+/**
+ * @param report DistributionReport
+ * @returns the report as a JSON document
+ */
+export const reportToJson = (report: DistributionReport): string => {
+  return JSON.stringify(report, null, 2);
+};
+
+/**
+ * @param report DistributionReport
+ * @param level one row per grant, or one row per contributor to each grant
+ * @returns the report as CSV
+ */
+export const reportToCsv = (report: DistributionReport, level: 'grants' | 'contributions' = 'grants'): string => {
+  const rows: unknown[][] = [];
+
+  if (level === 'grants') {
+    rows.push([
+      'grantId',
+      'address',
+      'contributors',
+      'sumOfContributions',
+      'sumOfWeightedContributions',
+      'sumOfSqrtContributions',
+      'preNormalizationMatch',
+      'saturationFactor',
+      'match',
+      'matchUnits',
+      'capped',
+    ]);
+    report.grants.forEach((grant) => {
+      rows.push([
+        grant.grantId,
+        grant.address,
+        grant.contributors,
+        grant.sumOfContributions,
+        grant.sumOfWeightedContributions,
+        grant.sumOfSqrtContributions,
+        grant.preNormalizationMatch,
+        grant.saturationFactor,
+        grant.match,
+        grant.matchUnits,
+        grant.capped,
+      ]);
+    });
+  } else {
+    rows.push(['grantId', 'grantAddress', 'contributor', 'amount', 'weight', 'weightedAmount', 'marginalMatch']);
+    report.grants.forEach((grant) => {
+      grant.contributions.forEach((contribution) => {
+        rows.push([
+          grant.grantId,
+          grant.address,
+          contribution.address,
+          contribution.amount,
+          contribution.weight,
+          contribution.weightedAmount,
+          contribution.marginalMatch,
+        ]);
+      });
+    });
+  }
+
+  return rows.map((row) => row.map((cell) => toCsvCell(cell)).join(',')).join('\n') + '\n';
+};
+
+/**
+ * @param report DistributionReport
+ * @returns the report as a Markdown document (a summary, a table of grants and a table of contributors per grant)
+ */
+export const reportToMarkdown = (report: DistributionReport): string => {
+  const lines: string[] = [];
+
+  // summary of the round
+  lines.push(`# Distribution report: ${report.grantRound}`, '');
+  lines.push(
+    ...toMarkdownTable(
+      ['Total pot', 'Pre-normalization match', 'Saturation factor', 'Saturated', 'Trust bonus metaPtr'],
+      [
+        [
+          toMarkdownNumber(report.totalPot),
+          toMarkdownNumber(report.totalPreNormalizationMatch),
+          toMarkdownNumber(report.saturationFactor),
+          report.hasSaturated ? 'yes' : 'no',
+          report.trustBonusMetaPtr || '-',
+        ],
+      ]
+    ),
+    ''
+  );
+
+  // a row for each grant
+  lines.push('## Grants', '');
+  lines.push(
+    ...toMarkdownTable(
+      [
+        'Grant',
+        'Payee',
+        'Contributors',
+        'Contributions',
+        'Weighted contributions',
+        'Sum of sqrt',
+        'Pre-normalization match',
+        'Match',
+        'Capped',
+      ],
+      report.grants.map((grant) => [
+        String(grant.grantId),
+        grant.address,
+        String(grant.contributors),
+        toMarkdownNumber(grant.sumOfContributions),
+        toMarkdownNumber(grant.sumOfWeightedContributions),
+        toMarkdownNumber(grant.sumOfSqrtContributions),
+        toMarkdownNumber(grant.preNormalizationMatch),
+        toMarkdownNumber(grant.match),
+        grant.capped ? 'yes' : 'no',
+      ])
+    ),
+    ''
+  );
+
+  // every contributors part in each grants match
+  lines.push('## Contributions', '');
+  report.grants.forEach((grant) => {
+    lines.push(`### Grant ${grant.grantId}`, '');
+    lines.push(
+      ...toMarkdownTable(
+        ['Contributor', 'Amount', 'Weight', 'Weighted amount', 'Marginal match'],
+        grant.contributions.map((contribution) => [
+          contribution.address,
+          toMarkdownNumber(contribution.amount),
+          toMarkdownNumber(contribution.weight),
+          toMarkdownNumber(contribution.weightedAmount),
+          toMarkdownNumber(contribution.marginalMatch),
+        ])
+      ),
+      ''
+    );
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Multiplier applied to every match so that the total fits in the pot
+ *
+ * @param totalMatch sum of the pre-normalization matches
+ * @param totalPot
+ */
+const getSaturationFactor = (totalMatch: number, totalPot: number) => {
+  return totalMatch > totalPot ? totalPot / totalMatch : 1;
+};
+
+/**
+ * The grants final match if a contribution was removed
+ *
+ * @param grantId the grant the contribution was made to
+ * @param leaveOneOut pre-normalization match of every grant which changes without the contribution
+ * @param preNormalizationMatches every grants pre-normalization match with the contribution
+ * @param totalPreNormalizationMatch sum of preNormalizationMatches
+ * @param clrArgs
+ */
+const getMatchWithout = (
+  grantId: number,
+  leaveOneOut: Record<number, number>,
+  preNormalizationMatches: Record<number, number>,
+  totalPreNormalizationMatch: number,
+  clrArgs: CLRArgs
+) => {
+  // without a cap only the changed grants and the saturation factor matter
+  if (clrArgs.matchCap === undefined || clrArgs.matchCap === null) {
+    const totalMatch = Object.keys(leaveOneOut).reduce((total, id) => {
+      return total - preNormalizationMatches[Number(id)] + leaveOneOut[Number(id)];
+    }, totalPreNormalizationMatch);
+
+    return leaveOneOut[grantId] * getSaturationFactor(totalMatch, clrArgs.contributions.totalPot);
+  }
+
+  // rebuild the distribution so that the cap can be redistributed
+  const distribution: GrantMatch[] = Object.keys(preNormalizationMatches).map((id) => {
+    return {
+      grantId: Number(id),
+      address: '',
+      match: leaveOneOut[Number(id)] ?? preNormalizationMatches[Number(id)],
+    };
+  });
+  normalizeMatch(distribution, clrArgs.contributions.totalPot);
+  applyMatchCap(distribution, { ...clrArgs, fixedPoint: false });
+
+  return distribution.find((grantMatch) => grantMatch.grantId === grantId)?.match || 0;
+};
+
+/**
+ * @param cell any value
+ * @returns the value as a CSV cell (quoted when it contains a separator)
+ */
+const toCsvCell = (cell: unknown) => {
+  const value = cell === undefined || cell === null ? '' : String(cell);
+
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * @param value
+ * @returns the value rounded to 6 decimal places
+ */
+const toMarkdownNumber = (value: number) => {
+  return String(Math.round(value * 1e6) / 1e6);
+};
+
+/**
+ * @param headers column headings
+ * @param rows cell values for each row
+ * @returns the lines of a Markdown table
+ */
+const toMarkdownTable = (headers: string[], rows: string[][]) => {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ];
+};
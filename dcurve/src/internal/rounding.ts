@@ -0,0 +1,187 @@
+import { BigNumber } from 'ethers';
+import { getAddress } from 'ethers/lib/utils';
+import { GrantsDistribution, PayoutAdjustment, PayoutMatch, RoundedPayouts, RoundingOptions } from '../types';
+import { fromUnits, toUnits } from './fixed';
+
+// extra decimals carried below the tokens smallest unit to rank the remainders
+const REMAINDER_DECIMALS = 18;
+const REMAINDER_SCALE = BigNumber.from(10).pow(REMAINDER_DECIMALS);
+
+/**
+ * @notice Rounds the payouts to whole units of the matching token with the largest remainder method.
+ *
+ * Every payout is rounded down, then the units lost to rounding are handed back one at a time to the payees with the
+ * largest remainders, so the total is the exact total rounded down (and never more than the pot - if floating point
+ * error pushes it over, the excess is trimmed from the payees with the smallest remainders). Payees left with nothing,
+ * or with less than the `dustThreshold`, are dropped. When a `remainderAddress` is set it receives the rest of the pot
+ * (the dropped units along with anything rounding or an unsaturated round left unallocated), so the payouts sum to
+ * exactly `totalPotUnits`. Every change is recorded in `adjustments`.
+ *
+ * @param payoutDistribution PayoutMatch[] (each `matchUnits` is used as is when set)
+ * @param totalPotUnits the pot in the matching tokens smallest unit
+ * @param decimals number of decimals used by the matching token
+ * @param options *optional* dustThreshold and remainderAddress
+ * @returns RoundedPayouts
+ */
+export const roundPayouts = (
+  payoutDistribution: PayoutMatch[],
+  totalPotUnits: BigNumber,
+  decimals: number,
+  options: RoundingOptions = {}
+): RoundedPayouts => {
+  const adjustments: PayoutAdjustment[] = [];
+
+  // split each payout into whole units and the remainder below them
+  const payouts = payoutDistribution.map((payoutMatch) => {
+    const exact = payoutMatch.matchUnits
+      ? BigNumber.from(payoutMatch.matchUnits).mul(REMAINDER_SCALE)
+      : toUnits(Math.max(payoutMatch.match, 0), decimals + REMAINDER_DECIMALS);
+
+    return {
+      payoutMatch: payoutMatch,
+      units: exact.div(REMAINDER_SCALE),
+      remainder: exact.mod(REMAINDER_SCALE),
+    };
+  });
+
+  // the total to hand out is the exact total rounded down (capped to the pot)
+  const exactTotal = payouts.reduce(
+    (total, payout) => total.add(payout.units.mul(REMAINDER_SCALE)).add(payout.remainder),
+    BigNumber.from(0)
+  );
+  const target = minimum(exactTotal.div(REMAINDER_SCALE), totalPotUnits);
+  const allocated = payouts.reduce((total, payout) => total.add(payout.units), BigNumber.from(0));
+
+  // rank by remainder (ties are broken by address so that every calculation picks the same payees)
+  const ranked = [...payouts].sort((a, b) => {
+    if (!a.remainder.eq(b.remainder)) return a.remainder.gt(b.remainder) ? -1 : 1;
+
+    return a.payoutMatch.address.toLowerCase() < b.payoutMatch.address.toLowerCase() ? -1 : 1;
+  });
+
+  if (allocated.lt(target)) {
+    // hand the lost units to the largest remainders (there are always fewer lost units than payees)
+    ranked.slice(0, target.sub(allocated).toNumber()).forEach((payout) => {
+      payout.units = payout.units.add(1);
+      adjustments.push({ address: payout.payoutMatch.address, reason: 'rounding', units: '1' });
+    });
+  } else if (allocated.gt(target)) {
+    // take the excess back in proportion to each payout, then a unit at a time from the smallest remainders
+    const excess = allocated.sub(target);
+    const trimmed = payouts.map((payout) => payout.units.mul(excess).div(allocated));
+    let outstanding = excess.sub(trimmed.reduce((total, units) => total.add(units), BigNumber.from(0)));
+    [...ranked].reverse().forEach((payout) => {
+      const index = payouts.indexOf(payout);
+      if (outstanding.gt(0) && payout.units.gt(trimmed[index])) {
+        trimmed[index] = trimmed[index].add(1);
+        outstanding = outstanding.sub(1);
+      }
+    });
+    payouts.forEach((payout, index) => {
+      if (trimmed[index].isZero()) return;
+      payout.units = payout.units.sub(trimmed[index]);
+      adjustments.push({
+        address: payout.payoutMatch.address,
+        reason: 'trim',
+        units: trimmed[index].mul(-1).toString(),
+      });
+    });
+  }
+
+  // drop the payees who are left with nothing (they can't be claimed) or with less than the threshold
+  const dustThresholdUnits = toUnits(options.dustThreshold || 0, decimals);
+  let keptUnits = BigNumber.from(0);
+  const rounded: PayoutMatch[] = [];
+  payouts.forEach((payout) => {
+    if (payout.units.isZero() || payout.units.lt(dustThresholdUnits)) {
+      adjustments.push({ address: payout.payoutMatch.address, reason: 'dust', units: payout.units.mul(-1).toString() });
+    } else {
+      keptUnits = keptUnits.add(payout.units);
+      rounded.push({
+        ...payout.payoutMatch,
+        match: fromUnits(payout.units, decimals),
+        matchUnits: payout.units.toString(),
+      });
+    }
+  });
+
+  // send the rest of the pot to the remainder address (merged with its payout when it is already a payee)
+  const remainderUnits = totalPotUnits.sub(keptUnits);
+  if (options.remainderAddress && remainderUnits.gt(0)) {
+    const remainderAddress = getAddress(options.remainderAddress);
+    const existing = rounded.find((payoutMatch) => getAddress(payoutMatch.address) === remainderAddress);
+    const units = remainderUnits.add(existing?.matchUnits || 0);
+    if (existing) {
+      existing.matchUnits = units.toString();
+      existing.match = fromUnits(units, decimals);
+    } else {
+      rounded.push({
+        grantIds: [],
+        address: remainderAddress,
+        match: fromUnits(units, decimals),
+        matchUnits: units.toString(),
+      });
+    }
+    adjustments.push({ address: remainderAddress, reason: 'remainder', units: remainderUnits.toString() });
+  }
+
+  const totalUnits = rounded.reduce((total, payoutMatch) => total.add(payoutMatch.matchUnits || 0), BigNumber.from(0));
+
+  return {
+    payoutDistribution: rounded,
+    adjustments: adjustments,
+    totalUnits: totalUnits.toString(),
+    unallocatedUnits: totalPotUnits.sub(totalUnits).toString(),
+  };
+};
+
+/**
+ * @notice Reads the rounding options back from a distribution's `payoutAdjustments`, for distributions which were
+ * published without them (a finalization bundle records its `rounding`).
+ *
+ * The `remainderAddress` is the payee of the `remainder` adjustment and the `dustThreshold` is the smallest threshold
+ * which drops the same payees (just above the largest payout dropped as dust).
+ *
+ * @param distribution the published distribution
+ * @param decimals number of decimals used by the matching token
+ * @returns RoundingOptions
+ */
+export const getRoundingOptions = (
+  distribution: Pick<GrantsDistribution, 'payoutAdjustments'>,
+  decimals: number
+): RoundingOptions => {
+  const adjustments = distribution.payoutAdjustments || [];
+  const remainder = adjustments.find((adjustment) => adjustment.reason === 'remainder');
+  const largestDust = adjustments
+    .filter((adjustment) => adjustment.reason === 'dust')
+    .reduce((largest, adjustment) => maximum(largest, BigNumber.from(adjustment.units).mul(-1)), BigNumber.from(0));
+
+  // the threshold is a float, so step it up until it converts back to more units than the largest dust
+  let dustThreshold = largestDust.gt(0) ? fromUnits(largestDust.add(1), decimals) : undefined;
+  while (dustThreshold && toUnits(dustThreshold, decimals).lte(largestDust)) {
+    dustThreshold *= 1 + Number.EPSILON;
+  }
+
+  return {
+    dustThreshold: dustThreshold,
+    remainderAddress: remainder ? getAddress(remainder.address) : undefined,
+  };
+};
+
+/**
+ * @param a
+ * @param b
+ * @returns the smaller of a and b
+ */
+const minimum = (a: BigNumber, b: BigNumber) => {
+  return a.lt(b) ? a : b;
+};
+
+/**
+ * @param a
+ * @param b
+ * @returns the larger of a and b
+ */
+const maximum = (a: BigNumber, b: BigNumber) => {
+  return a.gt(b) ? a : b;
+};
@@ -0,0 +1,154 @@
+import { fetchJson } from 'ethers/lib/utils';
+import { CLRArgs, TrustBonusScore, TrustScoreProvider, TrustWeighting } from '../types';
+import { fetchTrustBonusScore } from '@dgrants/utils/src/trustBonus';
+import { retrievalEndpoint } from '@dgrants/utils/src/ipfs';
+
+// score given to any address the provider has no score for
+export const DEFAULT_TRUST_SCORE = 0.5;
+
+// --------- PROVIDERS
+
+/**
+ * Fetches scores from the gitcoin trust-bonus API.
+ *
+ * The API can change between calls, so callers should keep (or upload) the scores to verify the distribution later.
+ */
+export class GitcoinTrustScoreProvider implements TrustScoreProvider {
+  async getScores(addresses: string[]): Promise<TrustBonusScore[]> {
+    const { data, status } = await fetchTrustBonusScore(addresses);
+    if (!status.ok) throw new Error(`Unable to fetch the trust bonus scores: ${status.message}`);
+
+    return data;
+  }
+}
+
+/**
+ * Reads scores from a JSON document (`TrustBonusScore[]`) or a CSV (`address,score` per line, with an optional header).
+ */
+export class StaticTrustScoreProvider implements TrustScoreProvider {
+  private readonly scores: TrustBonusScore[];
+
+  constructor(content: string | TrustBonusScore[], format?: 'json' | 'csv') {
+    if (typeof content !== 'string') {
+      this.scores = content;
+    } else if ((format || (content.trim().startsWith('[') ? 'json' : 'csv')) === 'json') {
+      this.scores = JSON.parse(content);
+    } else {
+      this.scores = parseTrustScoreCsv(content);
+    }
+  }
+
+  async getScores(addresses: string[]): Promise<TrustBonusScore[]> {
+    const requested = new Set(addresses.map((address) => address.toLowerCase()));
+
+    return this.scores.filter((trustScore) => requested.has(trustScore.address.toLowerCase()));
+  }
+}
+
+/**
+ * Resolves a `TrustBonusScore[]` document stored on IPFS (the CID is recorded as the `trustBonusMetaPtr`).
+ */
+export class IpfsTrustScoreProvider implements TrustScoreProvider {
+  constructor(readonly metaPtr: string, readonly gateway: string = retrievalEndpoint) {}
+
+  async getScores(): Promise<TrustBonusScore[]> {
+    try {
+      return await fetchJson(`${this.gateway}/${this.metaPtr}`);
+    } catch (err) {
+      throw new Error(`Unable to resolve trust scores from ${this.metaPtr}: ${(err as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Gives every address the same score (useful for rounds without sybil data and for running offline).
+ */
+export class ConstantTrustScoreProvider implements TrustScoreProvider {
+  constructor(readonly score: number) {}
+
+  async getScores(addresses: string[]): Promise<TrustBonusScore[]> {
+    return addresses.map((address) => ({ address: address, score: this.score }));
+  }
+}
+
+// --------- WEIGHTING
+
+/**
+ * Contributions are multiplied by the trust score (the original behaviour)
+ */
+export const multiplyWeighting = (): TrustWeighting => {
+  return (score) => score;
+};
+
+/**
+ * Contributions are multiplied by the trust score, but never by more than `max`
+ *
+ * @param max highest multiplier allowed
+ */
+export const capWeighting = (max: number): TrustWeighting => {
+  return (score) => Math.min(score, max);
+};
+
+/**
+ * Contributions count in full when the trust score reaches `min` and are ignored otherwise
+ *
+ * @param min lowest score which is trusted
+ */
+export const thresholdWeighting = (min: number): TrustWeighting => {
+  return (score) => (score >= min ? 1 : 0);
+};
+
+// --------- RESOLUTION
+
+/**
+ * @notice Resolves the trust bonus scores for a calculation from the given provider.
+ *
+ * Calculations only ever use the `trustBonusScores` they are given, so this is the (explicit) step which fetches them.
+ * Scores which can't be retrieved again later (eg. from the gitcoin API) should be kept or uploaded by the caller.
+ *
+ * @param provider source of the scores
+ * @param contributionAddresses addresses which need a score
+ * @returns the scores and the metaPtr they can be retrieved from
+ */
+export const getTrustBonusScores = async (
+  provider: TrustScoreProvider,
+  contributionAddresses: string[]
+): Promise<{ trustBonusScores: TrustBonusScore[]; trustBonusMetaPtr?: string }> => {
+  return {
+    trustBonusScores: (await provider.getScores(contributionAddresses)) || [],
+    trustBonusMetaPtr: provider.metaPtr,
+  };
+};
+
+/**
+ * Builds a lookup returning the multiplier to apply to each contributors contribution
+ *
+ * @param clrArgs
+ * @returns address -> multiplier
+ */
+export const getTrustWeights = (clrArgs: CLRArgs) => {
+  const defaultScore = clrArgs.defaultTrustScore ?? DEFAULT_TRUST_SCORE;
+  const weighting = clrArgs.trustWeighting || multiplyWeighting();
+
+  // index the scores by address (the first score given for an address is used)
+  const scores = new Map<string, number>();
+  (clrArgs.trustBonusScores || []).forEach((trustScore) => {
+    if (!scores.has(trustScore.address)) scores.set(trustScore.address, trustScore.score);
+  });
+
+  return (address: string) => weighting(scores.get(address) ?? defaultScore);
+};
+
+/**
+ * Parses `address,score` lines into TrustBonusScore[] (a header line and blank lines are skipped)
+ *
+ * @param content csv document
+ * @returns TrustBonusScore[]
+ */
+const parseTrustScoreCsv = (content: string): TrustBonusScore[] => {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.split(',').map((cell) => cell.trim()))
+    .filter(([address, score]) => address && score && !isNaN(Number(score)))
+    .map(([address, score]) => ({ address: address, score: Number(score) }));
+};
@@ -1,6 +1,12 @@
-import { GrantsDistribution, GrantMatch } from '../../src/types';
+import { ContributionsByGrantId, GrantsDistribution, GrantMatch } from '../../src/types';
 import { GrantRoundContributions, Contribution, GrantPrediction } from '@dgrants/types';
 
+// address used for the anonymous contribution added when predicting
+export const ANONYMOUS_ADDRESS = '0x0';
+
+// amounts (in the rounds donationToken) predictions are made at when the round doesn't configure its own
+export const DEFAULT_PREDICTION_AXIS = [0, 1, 10, 100, 1000, 10000];
+
 /**
  * util function which adds anonymous contribution of given value to the
  * grantRoundContributions for given grant.
@@ -22,7 +28,7 @@ export const addAnonymousContribution = (
   const anonymousContribution: Contribution = {
     grantId: grantId,
     grantAddress: '0x0',
-    address: '0x0',
+    address: ANONYMOUS_ADDRESS,
     tokenIn: '0x0',
     amount: amount,
   };
@@ -35,6 +41,98 @@ export const addAnonymousContribution = (
   return grantRoundContributions;
 };
 
+/**
+ * Adds a contributor's contributions to several grants at once (e.g. everything in their cart). The contributions are
+ * attributed to the contributor's address as it already appears in the round, so the calculation sums them with
+ * anything the contributor has given before and applies their trust bonus score
+ *
+ * @param contributor address making the contributions (matched case-insensitively)
+ * @param contributions amount to contribute to each grant
+ * @param grantRoundContributions
+ * @returns a copy of grantRoundContributions including the new contributions
+ */
+export const addContributorContributions = (
+  contributor: string,
+  contributions: { grantId: number; amount: number }[],
+  grantRoundContributions: GrantRoundContributions
+): GrantRoundContributions => {
+  const existing = grantRoundContributions.contributions;
+  const address =
+    existing.find((contribution) => contribution.address.toLowerCase() === contributor.toLowerCase())?.address ||
+    contributor;
+
+  const added: Contribution[] = contributions
+    .filter(({ amount }) => amount > 0)
+    .map(({ grantId, amount }) => ({
+      grantId: grantId,
+      // grants without any contributions yet don't have a known address (as with the anonymous contribution)
+      grantAddress: existing.find((contribution) => contribution.grantId === grantId)?.grantAddress || '0x0',
+      address: address,
+      tokenIn: '0x0',
+      amount: amount,
+    }));
+
+  return { ...grantRoundContributions, contributions: [...existing, ...added] };
+};
+
+/**
+ * Pivots the contributions by grant, summing contributions from the same contributor to dampen effects
+ *
+ * @param contributions every contribution in the round
+ * @returns the contributions for each grant and every contributing address
+ */
+export const pivotContributions = (contributions: Contribution[]) => {
+  const contributionsByGrantId: ContributionsByGrantId = {};
+  const contributionAddresses: Set<string> = new Set();
+
+  // pivot the contributions by project
+  contributions.forEach((contribution) => {
+    if (!contributionsByGrantId[contribution.grantId]) {
+      contributionsByGrantId[contribution.grantId] = {
+        grantId: contribution.grantId,
+        grantAddress: contribution.grantAddress,
+        contributions: {},
+      };
+    }
+    contributionAddresses.add(contribution.address);
+    // sum contributions from the same contributor to dampen effects
+    if (!contributionsByGrantId[contribution.grantId].contributions[contribution.address]) {
+      contributionsByGrantId[contribution.grantId].contributions[contribution.address] = { ...contribution };
+    } else {
+      contributionsByGrantId[contribution.grantId].contributions[contribution.address].amount += contribution.amount;
+    }
+  });
+
+  return { contributionsByGrantId, contributionAddresses };
+};
+
+/**
+ * util function which scales every match down proportionally when the distribution
+ * asks for more than the totalPot
+ *
+ * @param distribution GrantMatch[] (updated in place)
+ * @param totalPot
+ * @returns true if the round has saturated
+ */
+export const normalizeMatch = (distribution: GrantMatch[], totalPot: number): boolean => {
+  // record how much of the totalPot we have allocated
+  const totalMatch = distribution.reduce((total, grantMatch) => total + grantMatch.match, 0);
+
+  // this means the round has saturated and we have enough
+  // contributions to ensure all funds are distributed
+  const hasSaturated = totalMatch > totalPot;
+
+  // normalize match if hasSaturated is true
+  if (hasSaturated) {
+    distribution.forEach((grantMatch: GrantMatch) => {
+      // normalize match if round has saturated
+      grantMatch.match = (grantMatch.match * totalPot) / totalMatch;
+    });
+  }
+
+  return hasSaturated;
+};
+
 /**
  * util function which filters for a grants match value in the distribution
  *
@@ -59,65 +157,165 @@ export function lerp(xLower: number, xUpper: number, yLower: number, yUpper: num
   return yLower + ((yUpper - yLower) * (x - xLower)) / (xUpper - xLower);
 }
 
+/**
+ * Monotone cubic (Fritsch-Carlson) interpolation through the given points
+ *
+ * Unlike a cubic spline the curve never overshoots, so it only rises where the points rise. Outside of the points
+ * the value is clamped to the first/last y.
+ *
+ * @param xs strictly increasing x values
+ * @param ys y value at each x
+ * @param x
+ * @returns Number Value that fits the curve for x
+ */
+export function interpolateMonotone(xs: number[], ys: number[], x: number) {
+  const n = xs.length;
+  if (!n) return 0;
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[n - 1]) return ys[n - 1];
+
+  // slope of each segment
+  const secants: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    secants.push((ys[k + 1] - ys[k]) / (xs[k + 1] - xs[k]));
+  }
+
+  // tangent at each point (flat at local extrema, the average of the neighbouring secants otherwise)
+  const tangents = [secants[0]];
+  for (let k = 1; k < n - 1; k++) {
+    tangents.push(secants[k - 1] * secants[k] <= 0 ? 0 : (secants[k - 1] + secants[k]) / 2);
+  }
+  tangents.push(secants[n - 2]);
+
+  // limit the tangents so that each segment stays monotone
+  secants.forEach((secant, k) => {
+    if (secant === 0) {
+      tangents[k] = 0;
+      tangents[k + 1] = 0;
+    } else {
+      const a = tangents[k] / secant;
+      const b = tangents[k + 1] / secant;
+      if (a * a + b * b > 9) {
+        const t = 3 / Math.sqrt(a * a + b * b);
+        tangents[k] = t * a * secant;
+        tangents[k + 1] = t * b * secant;
+      }
+    }
+  });
+
+  // find the segment containing x and evaluate the cubic hermite
+  let k = 0;
+  while (x >= xs[k + 1]) k++;
+  const h = xs[k + 1] - xs[k];
+  const t = (x - xs[k]) / h;
+
+  return (
+    (2 * t ** 3 - 3 * t ** 2 + 1) * ys[k] +
+    (t ** 3 - 2 * t ** 2 + t) * h * tangents[k] +
+    (-2 * t ** 3 + 3 * t ** 2) * ys[k + 1] +
+    (t ** 3 - t ** 2) * h * tangents[k + 1]
+  );
+}
+
+/**
+ * Cleans up a rounds configured prediction axis so that it can be used as `predictionPoints`
+ *
+ * @param axis *optional* amounts (in the rounds donationToken) to predict the match at
+ * @returns sorted, unique, non-negative amounts starting at 0 (DEFAULT_PREDICTION_AXIS when none are valid)
+ */
+export function getPredictionAxis(axis?: number[]) {
+  const points = (axis || []).filter((point) => typeof point === 'number' && isFinite(point) && point > 0);
+  if (!points.length) return [...DEFAULT_PREDICTION_AXIS];
+
+  // 0 is needed for the current match
+  return [0, ...Array.from(new Set(points.sort((a, b) => a - b)))];
+}
+
 /**
  * Util function to find the predicted match for a given amount of matchingTokens
  *
+ * The prediction curve is interpolated with a monotone cubic in log1p(amount) space, so that the estimate is smooth
+ * whatever scale the rounds axis covers. Amounts beyond the last prediction point are clamped to its prediction.
+ *
  * @param {GrantPrediction} clrPredictions Object containing predictions for the Grant in a GrantRound
  * @param {Number} amount Human readable amount denominated in the GrantRounds matchingToken
  */
 export function getPredictedMatchingForAmount(clrPredictions: GrantPrediction, amount: number) {
-  if (amount < 0) {
+  if (!clrPredictions?.predictions?.length || !amount || isNaN(amount) || amount < 0) {
     return 0;
   }
 
-  // the matching for this grant in this round if we contribute the amount
-  let clrPrediction = 0;
-  // predictions should be provided with the same axis
-  const contributionsAxis = [0, 1, 10, 100, 1000, 10000];
-  // get all predictions for this grant in this round
-  const clrPredictionCurve = clrPredictions?.predictions?.map((prediction, key) => {
-    return key == 0 ? prediction.predictedGrantMatch : prediction.predictionDiff;
-  });
-  // set up lerp input for more accurate predicted matching
-  if (!clrPredictionCurve || !amount || isNaN(amount)) {
-    clrPrediction = 0;
-  } else if (contributionsAxis.indexOf(amount) > 0) {
-    clrPrediction = clrPredictionCurve[contributionsAxis.indexOf(amount)];
-  } else {
-    let xLower = 0;
-    let xUpper = 0;
-    let yLower = 0;
-    let yUpper = 0;
-
-    if (0 < amount && amount < 1) {
-      xLower = 0;
-      xUpper = 1;
-      yLower = clrPredictionCurve[0];
-      yUpper = clrPredictionCurve[1];
-    } else if (1 < amount && amount < 10) {
-      xLower = 1;
-      xUpper = 10;
-      yLower = clrPredictionCurve[1];
-      yUpper = clrPredictionCurve[2];
-    } else if (10 < amount && amount < 100) {
-      xLower = 10;
-      xUpper = 100;
-      yLower = clrPredictionCurve[2];
-      yUpper = clrPredictionCurve[3];
-    } else if (100 < amount && amount < 1000) {
-      xLower = 100;
-      xUpper = 1000;
-      yLower = clrPredictionCurve[3];
-      yUpper = clrPredictionCurve[4];
-    } else {
-      xLower = 1000;
-      xUpper = 10000;
-      yLower = clrPredictionCurve[4];
-      yUpper = clrPredictionCurve[5];
-    }
-    // Linear interpolation for more accurate prediction
-    clrPrediction = lerp(xLower, xUpper, yLower, yUpper, amount);
+  // order the predictions along the axis (an anonymous contribution of 0 never changes the match)
+  const xs = [0];
+  const ys = [0];
+  [...clrPredictions.predictions]
+    .sort((a, b) => a.predictionPoint - b.predictionPoint)
+    .forEach((prediction) => {
+      if (prediction.predictionPoint > xs[xs.length - 1]) {
+        xs.push(prediction.predictionPoint);
+        ys.push(prediction.predictionDiff);
+      }
+    });
+
+  // interpolate in log space so that each order of magnitude gets an even share of the curve
+  return interpolateMonotone(
+    xs.map((x) => Math.log1p(x)),
+    ys,
+    Math.log1p(amount)
+  );
+}
+
+/**
+ * Splits a budget between grants so that the total predicted match is as large as possible
+ *
+ * The budget is handed out in `steps` equal increments, each going to the grant whose match grows the most from it.
+ * This finds the best split when every curve has diminishing returns (as CLR matching does), otherwise it is a close
+ * estimate. Any part of the budget that would not add to the match is shared evenly.
+ *
+ * @param {Number} budget Human readable amount to split
+ * @param {Function[]} matchFns Predicted match for an amount given to each grant
+ * @param {Number} minimum *optional* amount every grant receives before the rest is split (defaults to 0)
+ * @param {Number} steps *optional* number of increments to hand the budget out in (defaults to 100)
+ * @returns amount for each grant, in the same order as `matchFns`
+ */
+export function getOptimalAllocation(
+  budget: number,
+  matchFns: ((amount: number) => number)[],
+  minimum = 0,
+  steps = 100
+): number[] {
+  const allocation = matchFns.map(() => 0);
+  if (!matchFns.length || !budget || isNaN(budget) || budget <= 0) return allocation;
+
+  // give each grant its minimum (or an even split if the budget doesn't cover every minimum)
+  const floor = Math.min(Math.max(minimum, 0), budget / matchFns.length);
+  allocation.forEach((_amount, i) => (allocation[i] = floor));
+  let remaining = budget - floor * matchFns.length;
+
+  // hand out the rest to whichever grant gains the most from each increment
+  const increment = remaining / steps;
+  const matches = matchFns.map((matchFn, i) => matchFn(allocation[i]));
+  for (let step = 0; step < steps && increment > 0; step++) {
+    let best = -1;
+    let bestGain = 0;
+    matchFns.forEach((matchFn, i) => {
+      const gain = matchFn(allocation[i] + increment) - matches[i];
+      if (gain > bestGain) {
+        best = i;
+        bestGain = gain;
+      }
+    });
+    if (best === -1) break;
+
+    allocation[best] += increment;
+    matches[best] += bestGain;
+    remaining -= increment;
+  }
+
+  // share out whatever didn't add to the match
+  if (remaining > 0) {
+    allocation.forEach((_amount, i) => (allocation[i] += remaining / matchFns.length));
   }
 
-  return clrPrediction;
+  return allocation;
 }
@@ -0,0 +1,213 @@
+import { BigNumber } from 'ethers';
+import { parseUnits } from 'ethers/lib/utils';
+import { Contribution, GrantRoundContributions } from '@dgrants/types';
+import {
+  GrantMatch,
+  GrantMatchDiff,
+  GrantsDistribution,
+  PayoutDiff,
+  PublishedDistribution,
+  TrustBonusScore,
+  TrustScoreDiff,
+  VerificationResult,
+} from '../types';
+
+/**
+ * @notice Compares a recalculated distribution (and the inputs it was calculated from) against the published one.
+ *
+ * Only the parts which were published can be compared, grants and payees are diffed when `published.distribution` is
+ * supplied, trust bonus scores when `published.trustBonusScores` is and contributions when `published.contributions` is.
+ *
+ * @param hash the published hash
+ * @param distribution the recalculated distribution
+ * @param grantRoundContributions the round as recalculated
+ * @param trustBonusScores the trust bonus scores used by the recalculation
+ * @param published the published distribution and inputs
+ * @returns VerificationResult
+ */
+export const getVerificationResult = (
+  hash: string,
+  distribution: GrantsDistribution,
+  grantRoundContributions: GrantRoundContributions,
+  trustBonusScores: TrustBonusScore[],
+  published: PublishedDistribution
+): VerificationResult => {
+  // only scores for addresses which contributed affect the distribution
+  const contributionAddresses = new Set(
+    [...grantRoundContributions.contributions, ...(published.contributions || [])].map(({ address }) =>
+      address.toLowerCase()
+    )
+  );
+
+  return {
+    verified: !!distribution.hash && distribution.hash.toLowerCase() === hash.toLowerCase(),
+    hash: hash,
+    calculatedHash: distribution.hash,
+    distribution: distribution,
+    grants: published.distribution ? diffGrants(published.distribution.distribution, distribution.distribution) : [],
+    payees: published.distribution
+      ? diffPayees(published.distribution, distribution, grantRoundContributions.matchingTokenDecimals)
+      : [],
+    trustScores: published.trustBonusScores
+      ? diffTrustScores(published.trustBonusScores, trustBonusScores, contributionAddresses)
+      : [],
+    contributions: published.contributions
+      ? diffContributions(published.contributions, grantRoundContributions.contributions)
+      : { expectedOnly: [], calculatedOnly: [] },
+  };
+};
+
+/**
+ * Lists every grant whose payee or match differs
+ *
+ * @param expected published GrantMatch[]
+ * @param calculated recalculated GrantMatch[]
+ */
+const diffGrants = (expected: GrantMatch[], calculated: GrantMatch[]): GrantMatchDiff[] => {
+  const grantMatches: Record<number, GrantMatchDiff> = {};
+  expected.forEach((grantMatch) => {
+    grantMatches[grantMatch.grantId] = { grantId: grantMatch.grantId, expected: grantMatch };
+  });
+  calculated.forEach((grantMatch) => {
+    grantMatches[grantMatch.grantId] = {
+      ...(grantMatches[grantMatch.grantId] || { grantId: grantMatch.grantId }),
+      calculated: grantMatch,
+    };
+  });
+
+  return Object.values(grantMatches).filter(({ expected, calculated }) => {
+    if (!expected || !calculated) return true;
+    if (expected.address.toLowerCase() !== calculated.address.toLowerCase()) return true;
+
+    // compare the exact amounts when both sides have them
+    return expected.matchUnits && calculated.matchUnits
+      ? !BigNumber.from(expected.matchUnits).eq(calculated.matchUnits)
+      : expected.match !== calculated.match;
+  });
+};
+
+/**
+ * Lists every payee whose claim differs
+ *
+ * @param expected published GrantsDistribution
+ * @param calculated recalculated GrantsDistribution
+ * @param decimals the number of decimals used by the matching token
+ */
+const diffPayees = (expected: GrantsDistribution, calculated: GrantsDistribution, decimals: number): PayoutDiff[] => {
+  const expectedAmounts = getPayeeAmounts(expected, decimals);
+  const calculatedAmounts = getPayeeAmounts(calculated, decimals);
+
+  const payees: Record<string, PayoutDiff> = {};
+  Object.entries(expectedAmounts).forEach(([key, { address, amount }]) => {
+    payees[key] = { address: address, expected: amount };
+  });
+  Object.entries(calculatedAmounts).forEach(([key, { address, amount }]) => {
+    payees[key] = { ...(payees[key] || { address: address }), calculated: amount };
+  });
+
+  return Object.values(payees).filter(({ expected, calculated }) => expected !== calculated);
+};
+
+/**
+ * Lists every contributor whose trust bonus score differs
+ *
+ * @param expected published TrustBonusScore[]
+ * @param calculated TrustBonusScore[] used by the recalculation
+ * @param contributionAddresses lowercased addresses of every contributor
+ */
+const diffTrustScores = (
+  expected: TrustBonusScore[],
+  calculated: TrustBonusScore[],
+  contributionAddresses: Set<string>
+): TrustScoreDiff[] => {
+  const trustScores: Record<string, TrustScoreDiff> = {};
+  expected.forEach(({ address, score }) => {
+    trustScores[address.toLowerCase()] = { address: address, expected: score };
+  });
+  calculated.forEach(({ address, score }) => {
+    trustScores[address.toLowerCase()] = {
+      ...(trustScores[address.toLowerCase()] || { address: address }),
+      calculated: score,
+    };
+  });
+
+  return Object.entries(trustScores)
+    .filter(([key, { expected, calculated }]) => contributionAddresses.has(key) && expected !== calculated)
+    .map(([, trustScore]) => trustScore);
+};
+
+/**
+ * Lists the contributions which only appear on one side (duplicates are matched one for one)
+ *
+ * @param expected published Contribution[]
+ * @param calculated Contribution[] used by the recalculation
+ */
+const diffContributions = (expected: Contribution[], calculated: Contribution[]) => {
+  // index the published contributions
+  const unmatched: Record<string, Contribution[]> = {};
+  expected.forEach((contribution) => {
+    const key = getContributionKey(contribution);
+    if (!unmatched[key]) unmatched[key] = [];
+    unmatched[key].push(contribution);
+  });
+
+  // pair off each recalculated contribution with a published one
+  const calculatedOnly: Contribution[] = [];
+  calculated.forEach((contribution) => {
+    const key = getContributionKey(contribution);
+    if (unmatched[key]?.length) {
+      unmatched[key].shift();
+    } else {
+      calculatedOnly.push(contribution);
+    }
+  });
+
+  return {
+    expectedOnly: Object.values(unmatched).flat(),
+    calculatedOnly: calculatedOnly,
+  };
+};
+
+/**
+ * Identifies a contribution by everything which affects the calculation (and its position on chain when known)
+ *
+ * @param contribution
+ */
+const getContributionKey = (contribution: Contribution) => {
+  return [
+    contribution.txHash?.toLowerCase(),
+    contribution.logIndex,
+    contribution.grantId,
+    contribution.address.toLowerCase(),
+    contribution.amount,
+  ].join('-');
+};
+
+/**
+ * Reads each payees claim, preferring the merkle (which is what the hash commits to)
+ *
+ * @param distribution GrantsDistribution
+ * @param decimals the number of decimals used by the matching token
+ * @returns lowercased address -> address and amount in the matching tokens smallest unit
+ */
+const getPayeeAmounts = (distribution: GrantsDistribution, decimals: number) => {
+  const amounts: Record<string, { address: string; amount: string }> = {};
+
+  if (distribution.merkle) {
+    Object.entries(distribution.merkle.claims).forEach(([address, claim]) => {
+      amounts[address.toLowerCase()] = { address: address, amount: BigNumber.from(claim.amount).toString() };
+    });
+  } else {
+    (distribution.payoutDistribution || []).forEach((payoutMatch) => {
+      amounts[payoutMatch.address.toLowerCase()] = {
+        address: payoutMatch.address,
+        amount: (payoutMatch.matchUnits
+          ? BigNumber.from(payoutMatch.matchUnits)
+          : parseUnits(payoutMatch.match.toString(), decimals)
+        ).toString(),
+      };
+    });
+  }
+
+  return amounts;
+};
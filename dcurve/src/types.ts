@@ -1,9 +1,9 @@
 'use strict';
 
-import { MerkleDistributorInfo } from './internal/merkle';
+import { MerkleDistributorInfo, TokenMerkleDistributorInfo } from './internal/merkle';
 import { JsonRpcProvider, Web3Provider } from '@ethersproject/providers';
 import { TokenInfo } from '@uniswap/token-lists';
-import { Contribution, GrantRoundContributions } from '@dgrants/types';
+import { Contribution, GrantRoundContributions, MatchingAlgorithm } from '@dgrants/types';
 
 // ethers provider
 export type Provider = Web3Provider | JsonRpcProvider;
@@ -16,6 +16,10 @@ export type Provider = Web3Provider | JsonRpcProvider;
  * @field {grantRoundManager} grantRoundManager address from which contributions will be fetched
  * @field {ignore.contributionAddress} *optional* contributions addresses to be ignored
  * @field {ignore.grants} *optional* grants to be ignored
+ * @field {fromBlock} *optional* first block to search (eg. the block the round was deployed in)
+ * @field {toBlock} *optional* last block to search (defaults to the latest block)
+ * @field {blockBatchSize} *optional* max number of blocks to request events for at once
+ * @field {subgraphUrl} *optional* subgraph to read the donations from before falling back to the chain
  */
 export type GrantRoundFetchArgs = {
   grantRound: string;
@@ -27,6 +31,10 @@ export type GrantRoundFetchArgs = {
     contributionAddress?: string[];
     grants?: number[];
   };
+  fromBlock?: number;
+  toBlock?: number;
+  blockBatchSize?: number;
+  subgraphUrl?: string;
 };
 
 /**
@@ -61,6 +69,54 @@ export type GrantPredictionArgs = {
   trustBonusScores?: TrustBonusScore[];
 };
 
+/**
+ * Args object fed to clr.predictJoint
+ *
+ * @type JointPredictionArgs
+ * @field {contributor} *optional* address making the contributions (predicted anonymously when omitted)
+ * @field {contributions} amount (in the rounds donationToken) to contribute to each grant
+ * @field {grantRoundContributions} contributions in that round
+ * @field {[trustBonusScores]} trust bonus scores
+ */
+export type JointPredictionArgs = {
+  contributor?: string;
+  contributions: { grantId: number; amount: number }[];
+  grantRoundContributions: GrantRoundContributions;
+  trustBonusScores?: TrustBonusScore[];
+};
+
+/**
+ * A grant's match before and after the contributions predicted by clr.predictJoint
+ *
+ * @type JointGrantPrediction
+ * @field {grantId} grants id
+ * @field {currentMatch} match with the rounds current contributions
+ * @field {predictedMatch} match once every contribution has been added
+ * @field {predictionDiff} predictedMatch - currentMatch
+ */
+export type JointGrantPrediction = {
+  grantId: number;
+  currentMatch: number;
+  predictedMatch: number;
+  predictionDiff: number;
+};
+
+/**
+ * Result of clr.predictJoint
+ *
+ * @type JointPrediction
+ * @field {grantRound} address of the round
+ * @field {contributor} address the contributions were attributed to
+ * @field {predictions} prediction for each grant contributed to
+ * @field {totalDiff} sum of the predictionDiffs
+ */
+export type JointPrediction = {
+  grantRound: string;
+  contributor: string;
+  predictions: JointGrantPrediction[];
+  totalDiff: number;
+};
+
 // --------- CALCULATE
 
 /**
@@ -69,11 +125,15 @@ export type GrantPredictionArgs = {
  * @field {grantId} unique grant identifier
  * @field {address} grant payout address
  * @field {match} match amount
+ * @field {matchUnits} *optional* exact match in the matching tokens smallest unit (set when using `fixedPoint`)
+ * @field {capped} *optional* true when the match was reduced to `matchCap`
  */
 export type GrantMatch = {
   grantId: number;
   address: string;
   match: number;
+  matchUnits?: string;
+  capped?: boolean;
 };
 
 /**
@@ -86,14 +146,154 @@ export type TrustBonusScore = {
   score: number;
 };
 
+/**
+ * Source of trust bonus scores
+ * @type TrustScoreProvider
+ * @field {getScores} resolves the scores for the given addresses (addresses without a score get `defaultTrustScore`)
+ * @field {metaPtr} *optional* IPFS CID the scores can be retrieved from (recorded as the `trustBonusMetaPtr`)
+ */
+export type TrustScoreProvider = {
+  getScores: (addresses: string[]) => Promise<TrustBonusScore[]>;
+  metaPtr?: string;
+};
+
+/**
+ * Maps a trust bonus score to the multiplier applied to the contributors contribution
+ * @type TrustWeighting
+ */
+export type TrustWeighting = (score: number) => number;
+
+/**
+ * State cached by an algorithms `prepare` so that predictions don't need to rerun the whole calculation
+ * @type PreparedCLR
+ * @field {getMatch} the (normalized) match for grantId after an anonymous contribution of amount
+ * @field {getJointMatches} the (normalized) match for each grant contributed to after the contributor makes every
+ *   contribution at once
+ */
+export type PreparedCLR = {
+  getMatch: (grantId: number, amount: number) => number;
+  getJointMatches: (contributor: string, contributions: JointPredictionArgs['contributions']) => Record<number, number>;
+};
+
+/**
+ * A contributors (summed) contribution to a grant as seen by the algorithm
+ * @type ContributionExplanation
+ * @field {address} contributor address
+ * @field {amount} summed contribution
+ * @field {weight} multiplier applied from the contributors trust bonus score
+ * @field {leaveOneOut} pre-normalization match of every grant which changes when this contribution is removed
+ */
+export type ContributionExplanation = {
+  address: string;
+  amount: number;
+  weight: number;
+  leaveOneOut: Record<number, number>;
+};
+
+/**
+ * The algorithms view of a single grant (used to build the `DistributionReport`)
+ * @type GrantExplanation
+ * @field {grantId} unique grant identifier
+ * @field {address} grant payout address
+ * @field {preNormalizationMatch} match before saturation normalization and the `matchCap` are applied
+ * @field {contributions} every contributors (summed) contribution to the grant
+ */
+export type GrantExplanation = {
+  grantId: number;
+  address: string;
+  preNormalizationMatch: number;
+  contributions: ContributionExplanation[];
+};
+
+/**
+ * Calculation command
+ * @type CalcAlgo
+ * @field {prepare} *optional* caches the state needed to predict quickly (used by `CLR.predict` when available)
+ * @field {explain} *optional* breaks the calculation down per grant (required by `includeReport`)
+ */
+export type CalcAlgo = {
+  (clrArgs: CLRArgs): Promise<GrantsDistribution>;
+  prepare?: (clrArgs: CLRArgs) => Promise<PreparedCLR>;
+  explain?: (clrArgs: CLRArgs) => Promise<GrantExplanation[]>;
+};
+
 /**
  * Options fed into CLR class
  * @type InitArgs
  * @field {calcAlgo} command handle to use for calulation
+ * @field {includePayouts} *optional* build the payout merkle tree
+ * @field {includeReport} *optional* attach a `DistributionReport` explaining each grants match
+ * @field {fixedPoint} *optional* calculate with integers in the matching tokens decimals
+ * @field {pairwiseThreshold} *optional* coordination threshold used by `pairwise`
+ * @field {matchCap} *optional* max share of the pot (0-1] any single grant can receive
+ * @field {trustBonusScores} *optional* the trust bonus scores to calculate with (see `getTrustBonusScores`)
+ * @field {trustBonusMetaPtr} *optional* metaPtr the trust bonus scores can be retrieved from
+ * @field {defaultTrustScore} *optional* score used for addresses without one (defaults to 0.5)
+ * @field {trustWeighting} *optional* maps a score to a contribution multiplier (defaults to `multiplyWeighting`)
+ * @field {dustThreshold} *optional* payees due less than this (in the matching token) are left out of the payouts
+ * @field {remainderAddress} *optional* address which receives the rest of the pot (dust and unallocated units)
  */
 export type InitArgs = {
-  calcAlgo: (clrArgs: CLRArgs) => Promise<GrantsDistribution>;
+  calcAlgo: CalcAlgo;
   includePayouts?: boolean;
+  includeReport?: boolean;
+  fixedPoint?: boolean;
+  pairwiseThreshold?: number;
+  matchCap?: number;
+  trustBonusScores?: TrustBonusScore[];
+  trustBonusMetaPtr?: string;
+  defaultTrustScore?: number;
+  trustWeighting?: TrustWeighting;
+  dustThreshold?: number;
+  remainderAddress?: string;
+};
+
+/**
+ * How the payouts are rounded to whole token units
+ * @type RoundingOptions
+ */
+export type RoundingOptions = Pick<InitArgs, 'dustThreshold' | 'remainderAddress'>;
+
+// --------- REGISTRY
+
+/**
+ * Calculation options a rounds metadata can set through `matchingAlgorithm.params`
+ * @type AlgorithmParams
+ */
+export type AlgorithmParams = Pick<InitArgs, 'fixedPoint' | 'pairwiseThreshold' | 'matchCap' | 'defaultTrustScore'>;
+
+/**
+ * A versioned matching algorithm which can be selected by name
+ * @type AlgorithmDefinition
+ * @field {name} name used to select the algorithm (eg. from a rounds metadata)
+ * @field {version} version of the params (bumped whenever the defaults change so old rounds still verify)
+ * @field {calcAlgo} command handle to use for calulation
+ * @field {defaults} params used unless the round overrides them
+ * @field {params} names of the params a round is allowed to override
+ * @field {description} *optional* human readable description
+ */
+export type AlgorithmDefinition = {
+  name: string;
+  version: number;
+  calcAlgo: CalcAlgo;
+  defaults: AlgorithmParams;
+  params: (keyof AlgorithmParams)[];
+  description?: string;
+};
+
+/**
+ * An algorithm resolved from a rounds `matchingAlgorithm`
+ * @type ResolvedAlgorithm
+ * @field {name} registered algorithm name
+ * @field {version} version of the params
+ * @field {calcAlgo} command handle to use for calulation
+ * @field {params} the defaults merged with the rounds overrides
+ */
+export type ResolvedAlgorithm = {
+  name: string;
+  version: number;
+  calcAlgo: CalcAlgo;
+  params: AlgorithmParams;
 };
 
 /**
@@ -102,11 +302,13 @@ export type InitArgs = {
  * @field {grantId} unique grant identifier
  * @field {address} grant payout address
  * @field {match} match amount
+ * @field {matchUnits} *optional* exact match in the matching tokens smallest unit
  */
 export type PayoutMatch = {
   grantIds: number[];
   address: string;
   match: number;
+  matchUnits?: string;
 };
 
 /**
@@ -128,6 +330,8 @@ export type PayoutMatches = {
  * @field {trustBonusMetaPtr} metaPtr location
  * @field {grantRound} grant round address used for identification
  * @field {merkleError} error generated while genrating merkle root
+ * @field {payoutAdjustments} *optional* changes made while rounding the payouts to whole token units
+ * @field {report} *optional* breakdown of each grants match (set with `includeReport`)
  */
 export type GrantsDistribution = {
   distribution: GrantMatch[];
@@ -138,6 +342,336 @@ export type GrantsDistribution = {
   grantRound?: string;
   merkle?: MerkleDistributorInfo;
   merkleError?: string;
+  payoutAdjustments?: PayoutAdjustment[];
+  report?: DistributionReport;
+};
+
+/**
+ * A change made to a payee while rounding the payouts to whole token units
+ * @type PayoutAdjustment
+ * @field {address} payout address
+ * @field {reason} `rounding` (given a unit by the largest remainder), `trim` (reduced to fit the pot),
+ *   `dust` (left out for being below the `dustThreshold`) or `remainder` (received the rest of the pot)
+ * @field {units} signed change in the matching tokens smallest unit
+ */
+export type PayoutAdjustment = {
+  address: string;
+  reason: 'rounding' | 'trim' | 'dust' | 'remainder';
+  units: string;
+};
+
+/**
+ * Payouts rounded to whole token units
+ * @type RoundedPayouts
+ * @field {payoutDistribution} the payouts, every `matchUnits` is set and greater than zero
+ * @field {adjustments} every change made while rounding
+ * @field {totalUnits} sum of the payouts (never more than the pot)
+ * @field {unallocatedUnits} the part of the pot left unallocated
+ */
+export type RoundedPayouts = {
+  payoutDistribution: PayoutMatch[];
+  adjustments: PayoutAdjustment[];
+  totalUnits: string;
+  unallocatedUnits: string;
+};
+
+/**
+ * Combined payouts for every round paying out in the same matching token
+ * @type TokenPayoutDistribution
+ * @field {matchingToken} matching token address (or the round address when the round has no `matchingToken`)
+ * @field {matchingTokenDecimals} the number of decimals used by the matching token
+ * @field {grantRounds} grant round addresses combined into this payout
+ * @field {payoutDistribution} the distribution summed per payout address
+ * @field {hash} *optional* merkle root of the payoutDistribution
+ * @field {merkle} *optional* merkle tree of the payoutDistribution
+ * @field {merkleError} *optional* error generated while genrating merkle root
+ * @field {payoutAdjustments} *optional* changes made while rounding the payouts to whole token units
+ */
+export type TokenPayoutDistribution = {
+  matchingToken: string;
+  matchingTokenDecimals: number;
+  grantRounds: string[];
+  payoutDistribution: PayoutMatch[];
+  hash?: string;
+  merkle?: MerkleDistributorInfo;
+  merkleError?: string;
+  payoutAdjustments?: PayoutAdjustment[];
+};
+
+/**
+ * Distributions for several rounds
+ * @type MultiRoundDistribution
+ * @field {distributions} the distribution for each round
+ * @field {payouts} combined payouts for each matching token
+ */
+export type MultiRoundDistribution = {
+  distributions: GrantsDistribution[];
+  payouts: TokenPayoutDistribution[];
+};
+
+/**
+ * One of several matching pools funding the same round (eg. DAI and GTC sponsors)
+ * @type MatchingPool
+ * @field {matchingToken} address of the token the pool pays out in
+ * @field {matchingTokenDecimals} the number of decimals used by the token
+ * @field {totalPot} the pools balance (human readable number)
+ * @field {totalPotUnits} *optional* exact balance in the tokens smallest unit (as a decimal string)
+ */
+export type MatchingPool = {
+  matchingToken: string;
+  matchingTokenDecimals: number;
+  totalPot: number;
+  totalPotUnits?: string;
+};
+
+/**
+ * Distribution of a round funded by several matching pools, paid out from a single tree
+ * with a leaf for every payee in every token
+ * @type MultiTokenDistribution
+ * @field {grantRound} grant round address
+ * @field {distributions} the distribution of each pool (in the same order as the pools)
+ * @field {payouts} the rounded payouts in each token (in the same order as the pools)
+ * @field {hash} *optional* merkle root of every payout
+ * @field {merkle} *optional* merkle tree with a leaf for each (payee, token)
+ * @field {merkleError} *optional* error generated while genrating merkle root
+ */
+export type MultiTokenDistribution = {
+  grantRound: string;
+  distributions: GrantsDistribution[];
+  payouts: TokenPayoutDistribution[];
+  hash?: string;
+  merkle?: TokenMerkleDistributorInfo;
+  merkleError?: string;
+};
+
+// --------- REPORT
+
+/**
+ * A contributors part in a grants match
+ * @type ContributorReport
+ * @field {address} contributor address
+ * @field {amount} summed contribution
+ * @field {weight} multiplier applied from the contributors trust bonus score
+ * @field {weightedAmount} amount * weight
+ * @field {marginalMatch} how much of the grants final match would be lost without this contribution
+ */
+export type ContributorReport = {
+  address: string;
+  amount: number;
+  weight: number;
+  weightedAmount: number;
+  marginalMatch: number;
+};
+
+/**
+ * Breakdown of a single grants match
+ * @type GrantReport
+ * @field {grantId} unique grant identifier
+ * @field {address} grant payout address
+ * @field {contributors} number of unique contributors
+ * @field {sumOfContributions} raw sum of the contributions
+ * @field {sumOfWeightedContributions} sum of the trust weighted contributions
+ * @field {sumOfSqrtContributions} sum of the square root of the trust weighted contributions
+ * @field {preNormalizationMatch} match before saturation normalization and the `matchCap` are applied
+ * @field {saturationFactor} multiplier applied to every match to fit the pot (1 when the round hasn't saturated)
+ * @field {match} final match
+ * @field {matchUnits} *optional* final match in the matching tokens smallest unit
+ * @field {capped} *optional* true when the match was reduced to `matchCap`
+ * @field {contributions} every contributors part in the match (largest marginalMatch first)
+ */
+export type GrantReport = {
+  grantId: number;
+  address: string;
+  contributors: number;
+  sumOfContributions: number;
+  sumOfWeightedContributions: number;
+  sumOfSqrtContributions: number;
+  preNormalizationMatch: number;
+  saturationFactor: number;
+  match: number;
+  matchUnits?: string;
+  capped?: boolean;
+  contributions: ContributorReport[];
+};
+
+/**
+ * Breakdown of a rounds distribution
+ * @type DistributionReport
+ * @field {grantRound} grant round address
+ * @field {totalPot} matching pot
+ * @field {totalPreNormalizationMatch} sum of every grants preNormalizationMatch
+ * @field {saturationFactor} multiplier applied to every match to fit the pot (1 when the round hasn't saturated)
+ * @field {hasSaturated} flag to signify round is saturated
+ * @field {trustBonusMetaPtr} metaPtr location of the trust bonus scores used
+ * @field {grants} breakdown of each grants match
+ */
+export type DistributionReport = {
+  grantRound: string;
+  totalPot: number;
+  totalPreNormalizationMatch: number;
+  saturationFactor: number;
+  hasSaturated: boolean;
+  trustBonusMetaPtr?: string;
+  grants: GrantReport[];
+};
+
+/**
+ * Formats a `DistributionReport` can be exported as
+ * @type ReportFormat
+ */
+export type ReportFormat = 'json' | 'csv' | 'markdown';
+
+// --------- VERIFY
+
+/**
+ * The published distribution and inputs to verify a recalculation against
+ * @type PublishedDistribution
+ * @field {distribution} *optional* the published distribution (grants and payees are diffed against it)
+ * @field {trustBonusScores} *optional* the published trust bonus scores (resolved from the trustBonusMetaPtr otherwise)
+ * @field {contributions} *optional* the contributions the published distribution was calculated from
+ */
+export type PublishedDistribution = {
+  distribution?: GrantsDistribution;
+  trustBonusScores?: TrustBonusScore[];
+  contributions?: Contribution[];
+};
+
+/**
+ * A grant whose match differs between the published and recalculated distributions
+ * @type GrantMatchDiff
+ * @field {grantId} unique grant identifier
+ * @field {expected} *optional* the published GrantMatch (missing when the grant was only in the recalculation)
+ * @field {calculated} *optional* the recalculated GrantMatch (missing when the grant was only published)
+ */
+export type GrantMatchDiff = {
+  grantId: number;
+  expected?: GrantMatch;
+  calculated?: GrantMatch;
+};
+
+/**
+ * A payee whose claim differs between the published and recalculated distributions
+ * @type PayoutDiff
+ * @field {address} payout address
+ * @field {expected} *optional* published amount (in the matching tokens smallest unit)
+ * @field {calculated} *optional* recalculated amount (in the matching tokens smallest unit)
+ */
+export type PayoutDiff = {
+  address: string;
+  expected?: string;
+  calculated?: string;
+};
+
+/**
+ * A contributor whose trust bonus score differs between the published and recalculated scores
+ * @type TrustScoreDiff
+ * @field {address} contributor address
+ * @field {expected} *optional* published score
+ * @field {calculated} *optional* score used by the recalculation
+ */
+export type TrustScoreDiff = {
+  address: string;
+  expected?: number;
+  calculated?: number;
+};
+
+/**
+ * Outcome of `CLR.verify`
+ * @type VerificationResult
+ * @field {verified} true when the recalculated hash matches the published hash
+ * @field {hash} published hash
+ * @field {calculatedHash} *optional* recalculated hash (missing when the merkle couldn't be built)
+ * @field {distribution} the recalculated distribution
+ * @field {grants} grants whose match differs
+ * @field {payees} payees whose claim differs
+ * @field {trustScores} contributors whose trust bonus score differs
+ * @field {contributions.expectedOnly} contributions which were only published
+ * @field {contributions.calculatedOnly} contributions which were only recalculated
+ */
+export type VerificationResult = {
+  verified: boolean;
+  hash: string;
+  calculatedHash?: string;
+  distribution: GrantsDistribution;
+  grants: GrantMatchDiff[];
+  payees: PayoutDiff[];
+  trustScores: TrustScoreDiff[];
+  contributions: {
+    expectedOnly: Contribution[];
+    calculatedOnly: Contribution[];
+  };
+};
+
+// --------- BUNDLE
+
+/**
+ * Everything needed to reproduce a rounds merkle root without trusting any other source
+ * @type FinalizationBundle
+ * @field {version} version of the bundle format
+ * @field {grantRound} grant round address
+ * @field {createdAt} unix timestamp (seconds) the bundle was created at
+ * @field {fromBlock} *optional* first block the contributions were read from
+ * @field {toBlock} *optional* last block the contributions were read from
+ * @field {ignore} grants and contributor addresses which were left out of the contributions
+ * @field {contributions} snapshot of the round the distribution was calculated from
+ * @field {trustBonusScores} the trust bonus scores of every contributor
+ * @field {trustBonusMetaPtr} *optional* metaPtr the trust bonus scores were also published at
+ * @field {algorithm} the registered algorithm (and resolved params) the distribution was calculated with
+ * @field {rounding} how the payouts were rounded to whole token units
+ * @field {distribution} the distribution (without its merkle)
+ * @field {merkle} the full merkle tree, the root is the hash published on chain
+ */
+export type FinalizationBundle = {
+  version: number;
+  grantRound: string;
+  createdAt: number;
+  fromBlock?: number;
+  toBlock?: number;
+  ignore: {
+    contributionAddress: string[];
+    grants: number[];
+  };
+  contributions: GrantRoundContributions;
+  trustBonusScores: TrustBonusScore[];
+  trustBonusMetaPtr?: string;
+  algorithm: {
+    name: string;
+    version: number;
+    params: AlgorithmParams;
+  };
+  rounding: RoundingOptions;
+  distribution: Omit<GrantsDistribution, 'merkle' | 'merkleError' | 'report'>;
+  merkle: MerkleDistributorInfo;
+};
+
+/**
+ * Args for `createBundle`
+ * @type BundleArgs
+ * @field {grantRoundContributions} the round to finalize (as returned by `fetch`)
+ * @field {matchingAlgorithm} *optional* the rounds `matchingAlgorithm` (defaults to linear)
+ * @field {trustBonusScores} the trust bonus scores to calculate with (see `getTrustBonusScores`)
+ * @field {trustBonusMetaPtr} *optional* metaPtr the trust bonus scores can be retrieved from
+ * @field {dustThreshold} *optional* payees due less than this (in the matching token) are left out of the payouts
+ * @field {remainderAddress} *optional* address which receives the rest of the pot (dust and unallocated units)
+ */
+export type BundleArgs = {
+  grantRoundContributions: GrantRoundContributions;
+  matchingAlgorithm?: MatchingAlgorithm;
+  trustBonusScores: TrustBonusScore[];
+  trustBonusMetaPtr?: string;
+  dustThreshold?: number;
+  remainderAddress?: string;
+};
+
+/**
+ * Outcome of `verifyBundle`
+ * @type BundleVerificationResult
+ * @field {bundle} the bundle which was verified
+ * @field {cid} *optional* the CID the bundle was resolved from
+ */
+export type BundleVerificationResult = VerificationResult & {
+  bundle: FinalizationBundle;
+  cid?: string;
 };
 
 // --------- CLR CALC
@@ -148,9 +682,20 @@ export type GrantsDistribution = {
  * @type CLRArgs
  * @field {contributions}
  * @field {trustBonusMetaPtr} trust bonus scores meta Ptr
+ * @field {fixedPoint} *optional* calculate with integers in the matching tokens decimals
+ * @field {pairwiseThreshold} *optional* coordination threshold used by `pairwise` (in donationToken)
+ * @field {matchCap} *optional* max share of the pot (0-1] any single grant can receive, the excess is redistributed
+ * @field {trustBonusScores} *optional* the trust bonus scores to weight contributions by
+ * @field {defaultTrustScore} *optional* score used for addresses without one
+ * @field {trustWeighting} *optional* maps a score to a contribution multiplier
  */
 export type CLRArgs = {
   contributions: GrantRoundContributions;
   trustBonusMetaPtr?: string;
   trustBonusScores?: TrustBonusScore[];
+  fixedPoint?: boolean;
+  pairwiseThreshold?: number;
+  matchCap?: number;
+  defaultTrustScore?: number;
+  trustWeighting?: TrustWeighting;
 };
@@ -0,0 +1,48 @@
+// --- External imports ---
+import { expect } from 'chai';
+
+// --- Our imports ---
+import { getOptimalAllocation } from '../src/internal/utils';
+
+describe('getOptimalAllocation', function () {
+  // the share of the budget every item in the cart is given before optimizing
+  const MINIMUM_SHARE = 0.01;
+
+  // diminishing returns, a grant with weight w is worth w^2 times as much of the budget
+  const sqrtMatch = (weight: number) => (amount: number) => weight * Math.sqrt(amount);
+  const sum = (allocation: number[]) => allocation.reduce((total, amount) => total + amount, 0);
+
+  it('allocates the whole budget', async function () {
+    const matchFns = [sqrtMatch(1), sqrtMatch(2), sqrtMatch(3)];
+
+    expect(sum(getOptimalAllocation(100, matchFns))).to.be.closeTo(100, 1e-9);
+    expect(sum(getOptimalAllocation(100, matchFns, 100 * MINIMUM_SHARE))).to.be.closeTo(100, 1e-9);
+    expect(sum(getOptimalAllocation(100, [() => 0, () => 0]))).to.be.closeTo(100, 1e-9);
+  });
+
+  it('splits the budget where it adds the most to the match', async function () {
+    // the best split of sqrt curves is in proportion to their weight squared (1:4)
+    const allocation = getOptimalAllocation(100, [sqrtMatch(1), sqrtMatch(2)]);
+
+    expect(allocation[0]).to.be.closeTo(20, 1);
+    expect(allocation[1]).to.be.closeTo(80, 1);
+  });
+
+  it('gives every grant the minimum share', async function () {
+    // the second grant would never be given anything without a minimum
+    const allocation = getOptimalAllocation(100, [sqrtMatch(1), () => 0], 100 * MINIMUM_SHARE);
+
+    expect(allocation[1]).to.be.closeTo(1, 1e-9);
+    expect(allocation[0]).to.be.closeTo(99, 1e-9);
+  });
+
+  it('splits the budget evenly when it does not cover every minimum', async function () {
+    expect(getOptimalAllocation(10, [sqrtMatch(1), sqrtMatch(5)], 20)).to.deep.equal([5, 5]);
+  });
+
+  it('allocates nothing without a budget', async function () {
+    expect(getOptimalAllocation(0, [sqrtMatch(1), sqrtMatch(2)])).to.deep.equal([0, 0]);
+    expect(getOptimalAllocation(NaN, [sqrtMatch(1)])).to.deep.equal([0]);
+    expect(getOptimalAllocation(100, [])).to.deep.equal([]);
+  });
+});
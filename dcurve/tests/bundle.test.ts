@@ -0,0 +1,90 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { getAddress } from 'ethers/lib/utils';
+
+// --- Our imports ---
+import { BUNDLE_VERSION, createBundle, verifyBundle } from '../src/internal/bundle';
+import { FinalizationBundle, TrustBonusScore } from '../src/types';
+import { address, grantRoundContributions } from './utils';
+
+describe('bundle', function () {
+  const trustBonusScores: TrustBonusScore[] = [
+    { address: address(11), score: 1 },
+    { address: address(12), score: 0.8 },
+  ];
+  // a bundle as it would be read back from IPFS
+  const roundTrip = (bundle: FinalizationBundle): FinalizationBundle => JSON.parse(JSON.stringify(bundle));
+
+  it('round-trips through verify with a matching root', async function () {
+    const bundle = await createBundle({ grantRoundContributions: grantRoundContributions(), trustBonusScores });
+    const result = await verifyBundle(roundTrip(bundle));
+
+    expect(bundle.version).to.equal(BUNDLE_VERSION);
+    expect(bundle.algorithm).to.deep.equal({ name: 'linear', version: 1, params: {} });
+    expect(result.verified).to.be.true;
+    expect(result.calculatedHash).to.equal(bundle.merkle.merkleRoot);
+    expect(result.grants).to.be.empty;
+    expect(result.payees).to.be.empty;
+  });
+
+  it('recalculates with the pinned algorithm params and rounding', async function () {
+    const remainderAddress = getAddress(address(77));
+    const bundle = await createBundle({
+      grantRoundContributions: grantRoundContributions(),
+      matchingAlgorithm: { name: 'pairwise', version: 1, params: { pairwiseThreshold: 5 } },
+      trustBonusScores,
+      dustThreshold: 1,
+      remainderAddress,
+    });
+    const result = await verifyBundle(roundTrip(bundle));
+
+    expect(bundle.algorithm.params).to.deep.equal({ pairwiseThreshold: 5 });
+    expect(bundle.rounding).to.deep.equal({ dustThreshold: 1, remainderAddress });
+    // the remainderAddress is paid the rest of the pot
+    expect(bundle.merkle.tokenTotal).to.equal(BigNumber.from(grantRoundContributions().totalPotUnits).toHexString());
+    expect(bundle.merkle.claims[remainderAddress]).to.not.be.undefined;
+    expect(result.verified).to.be.true;
+  });
+
+  it('fails to verify a bundle whose scores were changed', async function () {
+    const bundle = roundTrip(
+      await createBundle({ grantRoundContributions: grantRoundContributions(), trustBonusScores })
+    );
+    bundle.trustBonusScores = [{ address: address(11), score: 0.1 }, trustBonusScores[1]];
+
+    const result = await verifyBundle(bundle);
+
+    expect(result.verified).to.be.false;
+    expect(result.grants).to.not.be.empty;
+  });
+
+  it('lists the contributions which differ from a fresh snapshot', async function () {
+    const bundle = await createBundle({ grantRoundContributions: grantRoundContributions(), trustBonusScores });
+    const snapshot = grantRoundContributions();
+    snapshot.contributions = snapshot.contributions.slice(1);
+
+    const result = await verifyBundle(roundTrip(bundle), snapshot);
+
+    expect(result.verified).to.be.false;
+    expect(result.contributions.expectedOnly).to.deep.equal([grantRoundContributions().contributions[0]]);
+    expect(result.contributions.calculatedOnly).to.be.empty;
+  });
+
+  it('refuses bundles which disagree with themselves or are too new', async function () {
+    const bundle = await createBundle({ grantRoundContributions: grantRoundContributions(), trustBonusScores });
+
+    const tampered = roundTrip(bundle);
+    tampered.distribution.hash = `0x${'0'.repeat(64)}`;
+    await verifyBundle(tampered).then(
+      () => expect.fail('the bundle should be refused'),
+      (err) => expect(err.message).to.contain('does not match its merkle root')
+    );
+
+    const future = { ...roundTrip(bundle), version: BUNDLE_VERSION + 1 };
+    await verifyBundle(future).then(
+      () => expect.fail('the bundle should be refused'),
+      (err) => expect(err.message).to.contain('Unsupported bundle version')
+    );
+  });
+});
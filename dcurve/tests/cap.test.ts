@@ -0,0 +1,52 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+
+// --- Our imports ---
+import { applyMatchCap } from '../src/internal/cap';
+import { toUnits } from '../src/internal/fixed';
+import { CLRArgs, GrantMatch } from '../src/types';
+import { address, grantRoundContributions } from './utils';
+
+describe('applyMatchCap', function () {
+  const clrArgs = (matchCap: number, fixedPoint = false) =>
+    <CLRArgs>{
+      matchCap,
+      fixedPoint,
+      contributions: { ...grantRoundContributions(), totalPot: 100, totalPotUnits: toUnits(100, 18).toString() },
+    };
+  const grantMatch = (grantId: number, match: number): GrantMatch => ({
+    grantId,
+    address: address(grantId),
+    match,
+    matchUnits: toUnits(match, 18).toString(),
+  });
+
+  it('redistributes until no grant is over the cap', async function () {
+    // capping the first grant pushes the second over the cap too
+    const distribution = [grantMatch(1, 60), grantMatch(2, 30), grantMatch(3, 10)];
+    applyMatchCap(distribution, clrArgs(0.35));
+
+    expect(distribution.map((grant) => grant.capped || false)).to.deep.equal([true, true, false]);
+    distribution.forEach((grant) => expect(grant.match).to.be.at.most(35));
+    expect(distribution.reduce((total, grant) => total + grant.match, 0)).to.be.closeTo(100, 1e-9);
+  });
+
+  it('redistributes in fixed-point without increasing the total', async function () {
+    const distribution = [grantMatch(1, 60), grantMatch(2, 30), grantMatch(3, 10)];
+    applyMatchCap(distribution, clrArgs(0.35, true));
+
+    const cap = toUnits(35, 18);
+    const total = distribution.reduce((sum, grant) => sum.add(grant.matchUnits || 0), BigNumber.from(0));
+    distribution.forEach((grant) => expect(BigNumber.from(grant.matchUnits).lte(cap)).to.be.true);
+    expect(total.lte(toUnits(100, 18))).to.be.true;
+    expect(distribution[2].matchUnits).to.equal(toUnits(30, 18).toString());
+  });
+
+  it('leaves the excess unallocated when every grant is capped', async function () {
+    const distribution = [grantMatch(1, 50), grantMatch(2, 50)];
+    applyMatchCap(distribution, clrArgs(0.25));
+
+    expect(distribution.map((grant) => grant.match)).to.deep.equal([25, 25]);
+  });
+});
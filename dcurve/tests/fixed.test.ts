@@ -0,0 +1,60 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+
+// --- Our imports ---
+import { CLR } from '../src/internal/clr';
+import { handle as linear } from '../src/internal/calc/linear';
+import { toUnits } from '../src/internal/fixed';
+import { grantRoundContributions, sumUnits } from './utils';
+
+// root of the fixed-point distribution of the test round (a change here changes every published payout)
+const EXPECTED_FIXED_POINT_ROOT = '0x17f0db979b2198a71a249cb433874963ecfd6f0d416bfca2a228d91c89f6bf64';
+
+describe('fixed', function () {
+  describe('toUnits', () => {
+    it('converts values too small for a plain decimal string', async function () {
+      expect(toUnits(1e-7, 18).toString()).to.equal('100000000000');
+      expect(toUnits(1e-7, 6).toString()).to.equal('0');
+    });
+
+    it('truncates fractions longer than the tokens decimals', async function () {
+      expect(toUnits(0.123456789, 6).toString()).to.equal('123456');
+      // only the digits which identify the float are kept
+      expect(toUnits(1 / 3, 18).toString()).to.equal('333333333333333300');
+    });
+
+    it('converts decimal fractions exactly', async function () {
+      expect(toUnits(0.3, 18).toString()).to.equal('300000000000000000');
+      expect(toUnits(1234.56789, 18).toString()).to.equal('1234567890000000000000');
+    });
+  });
+
+  describe('fixed-point distribution', () => {
+    const calculate = () =>
+      new CLR({
+        calcAlgo: linear,
+        fixedPoint: true,
+        includePayouts: true,
+        defaultTrustScore: 1,
+      }).calculate(grantRoundContributions());
+
+    it('builds a tree within the pot', async function () {
+      const distribution = await calculate();
+
+      expect(distribution.merkle).to.not.be.undefined;
+      expect(BigNumber.from(distribution.merkle?.tokenTotal).lte(grantRoundContributions().totalPotUnits || 0)).to.be
+        .true;
+      expect(sumUnits(distribution.payoutDistribution).toString()).to.equal(
+        BigNumber.from(distribution.merkle?.tokenTotal).toString()
+      );
+    });
+
+    it('produces the same root every time', async function () {
+      const [first, second] = [await calculate(), await calculate()];
+
+      expect(first.hash).to.equal(second.hash);
+      expect(first.hash).to.equal(EXPECTED_FIXED_POINT_ROOT);
+    });
+  });
+});
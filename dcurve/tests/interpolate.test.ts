@@ -0,0 +1,80 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { GrantPrediction } from '@dgrants/types';
+
+// --- Our imports ---
+import { getPredictedMatchingForAmount, interpolateMonotone } from '../src/internal/utils';
+import { address } from './utils';
+
+describe('interpolate', function () {
+  // n samples from `from` to `to` (inclusive)
+  const samples = (from: number, to: number, n = 500) =>
+    Array.from({ length: n + 1 }, (_, i) => from + ((to - from) * i) / n);
+
+  describe('interpolateMonotone', () => {
+    const xs = [0, 1, 2, 4, 8];
+    const ys = [0, 5, 6, 6, 20];
+
+    it('passes through every point', async function () {
+      xs.forEach((x, i) => expect(interpolateMonotone(xs, ys, x)).to.be.closeTo(ys[i], 1e-12));
+    });
+
+    it('never decreases between increasing points', async function () {
+      const values = samples(0, 8).map((x) => interpolateMonotone(xs, ys, x));
+
+      values.slice(1).forEach((value, i) => expect(value).to.be.at.least(values[i] - 1e-12));
+    });
+
+    it('stays flat where the points are flat', async function () {
+      samples(2, 4).forEach((x) => expect(interpolateMonotone(xs, ys, x)).to.be.closeTo(6, 1e-12));
+    });
+
+    it('clamps outside of the points', async function () {
+      expect(interpolateMonotone(xs, ys, -1)).to.equal(0);
+      expect(interpolateMonotone(xs, ys, 100)).to.equal(20);
+      expect(interpolateMonotone([], [], 1)).to.equal(0);
+    });
+  });
+
+  describe('getPredictedMatchingForAmount', () => {
+    const axis = [0, 1, 10, 100, 1000];
+    const diffs = [0, 2, 15, 40, 55];
+    // listed out of order to check that the predictions are sorted along the axis
+    const prediction: GrantPrediction = {
+      grantId: 1,
+      grantRound: address(100),
+      axis: axis,
+      predictions: axis
+        .map((predictionPoint, i) => ({
+          predictionPoint,
+          predictedGrantMatch: 100 + diffs[i],
+          predictionDiff: diffs[i],
+        }))
+        .reverse(),
+    };
+
+    it('predicts the diff at each prediction point', async function () {
+      axis.slice(1).forEach((point, i) => {
+        expect(getPredictedMatchingForAmount(prediction, point)).to.be.closeTo(diffs[i + 1], 1e-9);
+      });
+    });
+
+    it('never decreases as the amount grows', async function () {
+      const values = samples(0, 1000, 2000).map((amount) => getPredictedMatchingForAmount(prediction, amount));
+
+      values.slice(1).forEach((value, i) => expect(value).to.be.at.least(values[i] - 1e-9));
+    });
+
+    it('clamps amounts above the last prediction point', async function () {
+      expect(getPredictedMatchingForAmount(prediction, 1001)).to.equal(55);
+      expect(getPredictedMatchingForAmount(prediction, 1e9)).to.equal(55);
+    });
+
+    it('predicts nothing without an amount or predictions', async function () {
+      expect(getPredictedMatchingForAmount(prediction, 0)).to.equal(0);
+      expect(getPredictedMatchingForAmount(prediction, -5)).to.equal(0);
+      expect(getPredictedMatchingForAmount(prediction, NaN)).to.equal(0);
+      expect(getPredictedMatchingForAmount({ ...prediction, predictions: [] }, 10)).to.equal(0);
+    });
+  });
+});
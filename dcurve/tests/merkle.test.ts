@@ -0,0 +1,117 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { getAddress } from 'ethers/lib/utils';
+import { TokenBalanceTree } from '@dgrants/utils/src/merkle-distributor/token-balance-tree';
+
+// --- Our imports ---
+import { generateTokenMerkle, getTokenMerkleProof, verifyTokenMerkleProof } from '../src/internal/merkle';
+import { PayoutMatch, TokenPayoutDistribution } from '../src/types';
+import { address } from './utils';
+
+describe('merkle', function () {
+  const DAI = getAddress(address(98));
+  const GTC = getAddress(address(99));
+
+  // payee n is owed n * 1000 units (plus 1 in GTC)
+  const tokenPayouts = (token: string, payees: number[]): TokenPayoutDistribution => ({
+    matchingToken: token,
+    matchingTokenDecimals: 18,
+    grantRounds: [],
+    payoutDistribution: payees.map(
+      (n): PayoutMatch => ({
+        address: address(n),
+        grantIds: [n],
+        match: 0,
+        matchUnits: String(n * 1000 + (token === GTC ? 1 : 0)),
+      })
+    ),
+  });
+  // payees 11 and 12 are paid in both tokens, 13 only in GTC
+  const payouts = () => [tokenPayouts(DAI, [11, 12]), tokenPayouts(GTC, [11, 12, 13])];
+
+  // every claim in the tree with its proof
+  const claims = (merkle: ReturnType<typeof generateTokenMerkle>) =>
+    Object.entries(merkle.claims).flatMap(([account, tokenClaims]) =>
+      Object.entries(tokenClaims).map(([token, claim]) => ({ ...claim, account, token }))
+    );
+
+  describe('generateTokenMerkle', () => {
+    it('builds a leaf for each payee in each token', async function () {
+      const merkle = generateTokenMerkle(payouts());
+
+      expect(claims(merkle)).to.have.length(5);
+      expect(merkle.tokenTotals[DAI]).to.equal(BigNumber.from(11000 + 12000).toHexString());
+      expect(merkle.tokenTotals[GTC]).to.equal(BigNumber.from(11001 + 12001 + 13001).toHexString());
+      expect(getTokenMerkleProof(address(13), DAI, merkle)).to.deep.equal([]);
+    });
+
+    it('generates proofs which verify', async function () {
+      const merkle = generateTokenMerkle(payouts());
+
+      claims(merkle).forEach((claim) => {
+        expect(getTokenMerkleProof(claim.account, claim.token, merkle)).to.deep.equal(claim.proof);
+        expect(verifyTokenMerkleProof(merkle.merkleRoot, claim)).to.be.true;
+      });
+    });
+
+    it('rejects a claim with a tampered amount, token or index', async function () {
+      const merkle = generateTokenMerkle(payouts());
+      const claim = merkle.claims[getAddress(address(11))][DAI];
+      const valid = { ...claim, account: getAddress(address(11)), token: DAI };
+
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, valid)).to.be.true;
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, { ...valid, amount: BigNumber.from(claim.amount).add(1) })).to.be
+        .false;
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, { ...valid, token: GTC })).to.be.false;
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, { ...valid, index: claim.index + 1 })).to.be.false;
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, { ...valid, account: getAddress(address(12)) })).to.be.false;
+    });
+
+    it('builds a tree with a single leaf', async function () {
+      const merkle = generateTokenMerkle([tokenPayouts(DAI, [11])]);
+      const [claim] = claims(merkle);
+
+      expect(claim.proof).to.deep.equal([]);
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, claim)).to.be.true;
+      expect(verifyTokenMerkleProof(merkle.merkleRoot, { ...claim, amount: 1 })).to.be.false;
+    });
+  });
+
+  describe('TokenBalanceTree', () => {
+    const balances = [
+      { account: getAddress(address(11)), token: DAI, amount: BigNumber.from(100) },
+      { account: getAddress(address(11)), token: GTC, amount: BigNumber.from(200) },
+      { account: getAddress(address(12)), token: DAI, amount: BigNumber.from(300) },
+    ];
+    const root = (tree: TokenBalanceTree) => Buffer.from(tree.getHexRoot().substr(2), 'hex');
+    const proof = (hexProof: string[]) => hexProof.map((item) => Buffer.from(item.substr(2), 'hex'));
+
+    it('verifies the proof of every leaf', async function () {
+      const tree = new TokenBalanceTree(balances);
+
+      balances.forEach(({ account, token, amount }, index) => {
+        const leafProof = proof(tree.getProof(index, account, token, amount));
+        expect(TokenBalanceTree.verifyProof(index, account, token, amount, leafProof, root(tree))).to.be.true;
+      });
+    });
+
+    it('rejects a leaf with a tampered amount, token or index', async function () {
+      const tree = new TokenBalanceTree(balances);
+      const { account, token, amount } = balances[0];
+      const leafProof = proof(tree.getProof(0, account, token, amount));
+
+      expect(TokenBalanceTree.verifyProof(0, account, token, amount.add(1), leafProof, root(tree))).to.be.false;
+      expect(TokenBalanceTree.verifyProof(0, account, GTC, amount, leafProof, root(tree))).to.be.false;
+      expect(TokenBalanceTree.verifyProof(1, account, token, amount, leafProof, root(tree))).to.be.false;
+    });
+
+    it('uses the leaf as the root of a single leaf tree', async function () {
+      const { account, token, amount } = balances[0];
+      const tree = new TokenBalanceTree([balances[0]]);
+
+      expect(tree.getHexRoot()).to.equal(`0x${TokenBalanceTree.toNode(0, account, token, amount).toString('hex')}`);
+      expect(TokenBalanceTree.verifyProof(0, account, token, amount, [], root(tree))).to.be.true;
+    });
+  });
+});
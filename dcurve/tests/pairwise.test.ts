@@ -0,0 +1,96 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { GrantRoundContributions } from '@dgrants/types';
+
+// --- Our imports ---
+import { handle as pairwise } from '../src/internal/calc/pairwise';
+import { handle as linear } from '../src/internal/calc/linear';
+import { toUnits } from '../src/internal/fixed';
+import { CLRArgs, GrantsDistribution } from '../src/types';
+import { address } from './utils';
+
+describe('pairwise', function () {
+  // A (11) and B (12) fund both grants, C (13) only funds grant 2
+  const round = (): GrantRoundContributions => ({
+    grantRound: address(100),
+    totalPot: 1000,
+    matchingTokenDecimals: 18,
+    contributions: [
+      { grantId: 1, grantAddress: address(1), address: address(11), tokenIn: address(99), amount: 4 },
+      { grantId: 1, grantAddress: address(1), address: address(12), tokenIn: address(99), amount: 9 },
+      { grantId: 2, grantAddress: address(2), address: address(11), tokenIn: address(99), amount: 1 },
+      { grantId: 2, grantAddress: address(2), address: address(12), tokenIn: address(99), amount: 4 },
+      { grantId: 2, grantAddress: address(2), address: address(13), tokenIn: address(99), amount: 16 },
+    ],
+  });
+  const clrArgs = (args: Partial<CLRArgs> = {}) =>
+    <CLRArgs>{ contributions: round(), pairwiseThreshold: 10, defaultTrustScore: 1, ...args };
+  const match = (distribution: GrantsDistribution, grantId: number) =>
+    distribution.distribution.find((grantMatch) => grantMatch.grantId === grantId)?.match || 0;
+
+  it('discounts each pair by M / (M + coordination)', async function () {
+    // AB co-fund sqrt(4 * 9) + sqrt(1 * 4) = 8, AC sqrt(1 * 16) = 4 and BC sqrt(4 * 16) = 8
+    const distribution = await pairwise(clrArgs());
+
+    // grant 1: AB = 2 * 6 * 10 / (10 + 8)
+    expect(match(distribution, 1)).to.be.closeTo(120 / 18, 1e-9);
+    // grant 2: AB = 2 * 2 * 10 / (10 + 8), AC = 2 * 4 * 10 / (10 + 4), BC = 2 * 8 * 10 / (10 + 8)
+    expect(match(distribution, 2)).to.be.closeTo(40 / 18 + 80 / 14 + 160 / 18, 1e-9);
+    expect(distribution.hasSaturated).to.be.false;
+  });
+
+  it('approaches linear as the threshold grows', async function () {
+    const distribution = await pairwise(clrArgs({ pairwiseThreshold: 1e12 }));
+    const linearDistribution = await linear(clrArgs());
+
+    [1, 2].forEach((grantId) =>
+      expect(match(distribution, grantId)).to.be.closeTo(match(linearDistribution, grantId), 1e-6)
+    );
+  });
+
+  it('agrees with the float calculation in fixed-point', async function () {
+    const distribution = await pairwise(clrArgs());
+    const fixedDistribution = await pairwise(clrArgs({ fixedPoint: true }));
+
+    fixedDistribution.distribution.forEach((grantMatch) => {
+      const expected = toUnits(match(distribution, grantMatch.grantId), 18);
+      // integer square roots round down, so the units can only be a little short of the float match
+      expect(
+        expected
+          .sub(grantMatch.matchUnits || 0)
+          .abs()
+          .lte(BigNumber.from(10).pow(6))
+      ).to.be.true;
+    });
+  });
+
+  it('explains each contribution with a leave-one-out match matching a recalculation', async function () {
+    const explanations = await pairwise.explain(clrArgs());
+
+    for (const explanation of explanations) {
+      for (const contribution of explanation.contributions) {
+        // recalculate the round without this contribution
+        const contributions = round().contributions.filter(
+          (other) => other.grantId !== explanation.grantId || other.address !== contribution.address
+        );
+        const distribution = await pairwise(clrArgs({ contributions: { ...round(), contributions } }));
+
+        Object.entries(contribution.leaveOneOut).forEach(([grantId, leaveOneOut]) =>
+          expect(leaveOneOut).to.be.closeTo(match(distribution, Number(grantId)), 1e-9)
+        );
+      }
+    }
+  });
+
+  it('lowers the coordination of the pairs a removed contribution leaves behind', async function () {
+    const explanations = await pairwise.explain(clrArgs());
+    const contributionA = explanations
+      .find((explanation) => explanation.grantId === 1)
+      ?.contributions.find((contribution) => contribution.address === address(11));
+
+    // without A on grant 1, AB only co-fund 2 so grant 2s AB pair is discounted less
+    expect(contributionA?.leaveOneOut[1]).to.be.closeTo(0, 1e-9);
+    expect(contributionA?.leaveOneOut[2]).to.be.closeTo(40 / 12 + 80 / 14 + 160 / 18, 1e-9);
+  });
+});
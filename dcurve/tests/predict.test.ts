@@ -0,0 +1,131 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { GrantPrediction } from '@dgrants/types';
+
+// --- Our imports ---
+import { CLR } from '../src/internal/clr';
+import { handle as linear } from '../src/internal/calc/linear';
+import { DEFAULT_PREDICTION_AXIS } from '../src/internal/utils';
+import { CalcAlgo, CLRArgs, GrantPredictionArgs, InitArgs, JointPredictionArgs } from '../src/types';
+import { address, randomRound, randomScores, seededRandom } from './utils';
+
+describe('predict', function () {
+  // linear without its prepare step, so every prediction recalculates the whole round
+  const recompute: CalcAlgo = (clrArgs: CLRArgs) => linear(clrArgs);
+
+  // the predicted match at each point (ordered by point)
+  const matches = (prediction: GrantPrediction) =>
+    [...prediction.predictions]
+      .sort((a, b) => a.predictionPoint - b.predictionPoint)
+      .map((clrPrediction) => clrPrediction.predictedGrantMatch);
+
+  // asserts that the prepared prediction matches a full recalculation for every grant (and a grant without any)
+  const expectEquivalent = async (options: Omit<InitArgs, 'calcAlgo'>, args: Omit<GrantPredictionArgs, 'grantId'>) => {
+    const prepared = new CLR({ ...options, calcAlgo: linear });
+    const full = new CLR({ ...options, calcAlgo: recompute });
+
+    for (const grantId of [1, 2, 3, 4, 5, 9]) {
+      const expected = matches(await full.predict({ ...args, grantId }));
+      const actual = matches(await prepared.predict({ ...args, grantId }));
+
+      actual.forEach((match, index) => expect(match).to.be.closeTo(expected[index], 1e-9 * (1 + expected[index])));
+    }
+  };
+
+  // asserts that the prepared joint prediction matches a full recalculation
+  const expectJointEquivalent = async (options: Omit<InitArgs, 'calcAlgo'>, args: JointPredictionArgs) => {
+    const expected = await new CLR({ ...options, calcAlgo: recompute }).predictJoint(args);
+    const actual = await new CLR({ ...options, calcAlgo: linear }).predictJoint(args);
+
+    expect(actual.predictions.map(({ grantId }) => grantId)).to.deep.equal(
+      expected.predictions.map(({ grantId }) => grantId)
+    );
+    actual.predictions.forEach((prediction, index) => {
+      const { currentMatch, predictedMatch } = expected.predictions[index];
+      expect(prediction.currentMatch).to.be.closeTo(currentMatch, 1e-9 * (1 + currentMatch));
+      expect(prediction.predictedMatch).to.be.closeTo(predictedMatch, 1e-9 * (1 + predictedMatch));
+    });
+  };
+
+  [1, 2, 3, 4].forEach((seed) => {
+    describe(`random round ${seed}`, () => {
+      const random = seededRandom(seed);
+      const grantRoundContributions = randomRound(random);
+      const trustBonusScores = randomScores(random);
+      const args = { predictionPoints: DEFAULT_PREDICTION_AXIS, grantRoundContributions, trustBonusScores };
+
+      it('predicts the same match as a full recalculation', async function () {
+        await expectEquivalent({}, args);
+      });
+
+      it('predicts the same match as a full recalculation with a matchCap', async function () {
+        await expectEquivalent({ matchCap: 0.3 }, args);
+      });
+
+      it('predicts the same match as a full recalculation with the default trust score', async function () {
+        await expectEquivalent({ defaultTrustScore: 1.2 }, { ...args, trustBonusScores: undefined });
+      });
+
+      // an existing contributor (addressed in another case) adding to grants they have and haven't contributed to
+      const jointArgs = {
+        contributor: address(11).toUpperCase().replace('0X', '0x'),
+        contributions: [
+          { grantId: 1, amount: 25 },
+          { grantId: 3, amount: 400 },
+          { grantId: 1, amount: 5 },
+          { grantId: 9, amount: 10 },
+        ],
+        grantRoundContributions,
+        trustBonusScores,
+      };
+
+      it('predicts the same joint match as a full recalculation', async function () {
+        await expectJointEquivalent({}, jointArgs);
+        await expectJointEquivalent({}, { ...jointArgs, contributor: undefined });
+      });
+
+      it('predicts the same joint match as a full recalculation with a matchCap', async function () {
+        await expectJointEquivalent({ matchCap: 0.3 }, jointArgs);
+      });
+    });
+  });
+
+  describe('prepared state', () => {
+    const predict = (clr: CLR, args: Omit<GrantPredictionArgs, 'grantId' | 'predictionPoints'>) =>
+      clr.predict({ ...args, grantId: 1, predictionPoints: [100] }).then(matches);
+
+    it('is recalculated when the options are changed', async function () {
+      const grantRoundContributions = randomRound(seededRandom(5));
+      const clr = new CLR({ calcAlgo: linear });
+
+      const uncapped = await predict(clr, { grantRoundContributions });
+      Object.assign(clr._options, { matchCap: 0.1 });
+      const capped = await predict(clr, { grantRoundContributions });
+
+      expect(capped[0]).to.be.below(uncapped[0]);
+      expect(capped).to.deep.equal(
+        await predict(new CLR({ calcAlgo: recompute, matchCap: 0.1 }), { grantRoundContributions })
+      );
+    });
+
+    it('is recalculated when the contributions or scores are mutated in place', async function () {
+      const grantRoundContributions = randomRound(seededRandom(6));
+      const trustBonusScores = [{ address: address(11), score: 1 }];
+      const clr = new CLR({ calcAlgo: linear });
+      await predict(clr, { grantRoundContributions, trustBonusScores });
+
+      grantRoundContributions.contributions.push({
+        grantId: 1,
+        grantAddress: address(1),
+        address: address(11),
+        tokenIn: address(99),
+        amount: 500,
+      });
+      trustBonusScores[0].score = 0.1;
+
+      expect(await predict(clr, { grantRoundContributions, trustBonusScores })).to.deep.equal(
+        await predict(new CLR({ calcAlgo: recompute }), { grantRoundContributions, trustBonusScores })
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+// --- External imports ---
+import { expect } from 'chai';
+
+// --- Our imports ---
+import { handle as linear } from '../src/internal/calc/linear';
+import { handle as pairwise, DEFAULT_PAIRWISE_THRESHOLD } from '../src/internal/calc/pairwise';
+import {
+  getAlgorithm,
+  getMatchingAlgorithmOptions,
+  registerAlgorithm,
+  resolveMatchingAlgorithm,
+} from '../src/internal/registry';
+
+describe('registry', function () {
+  // two versions of an algorithm which only differ in their defaults
+  before(function () {
+    registerAlgorithm({
+      name: 'registry-test',
+      version: 1,
+      calcAlgo: linear,
+      defaults: { matchCap: 0.2 },
+      params: ['matchCap'],
+    });
+    registerAlgorithm({
+      name: 'registry-test',
+      version: 2,
+      calcAlgo: linear,
+      defaults: { matchCap: 0.05 },
+      params: ['matchCap'],
+    });
+  });
+
+  it('defaults to the latest linear', async function () {
+    const resolved = resolveMatchingAlgorithm();
+
+    expect(resolved.name).to.equal('linear');
+    expect(resolved.calcAlgo).to.equal(linear);
+    expect(resolved.params).to.deep.equal({});
+  });
+
+  it('pins the params of name@version', async function () {
+    expect(resolveMatchingAlgorithm('registry-test@1')).to.include({ version: 1 });
+    expect(resolveMatchingAlgorithm('registry-test@1').params).to.deep.equal({ matchCap: 0.2 });
+    expect(resolveMatchingAlgorithm({ name: 'registry-test', version: 1 }).params).to.deep.equal({ matchCap: 0.2 });
+
+    // without a version the latest defaults are used
+    expect(resolveMatchingAlgorithm('registry-test')).to.include({ version: 2 });
+    expect(resolveMatchingAlgorithm('registry-test').params).to.deep.equal({ matchCap: 0.05 });
+  });
+
+  it('applies the rounds params over the defaults', async function () {
+    const options = getMatchingAlgorithmOptions({
+      name: 'pairwise',
+      params: { pairwiseThreshold: 5, fixedPoint: true },
+    });
+
+    expect(options.calcAlgo).to.equal(pairwise);
+    expect(options).to.include({ pairwiseThreshold: 5, fixedPoint: true });
+    expect(getMatchingAlgorithmOptions('pairwise')).to.include({ pairwiseThreshold: DEFAULT_PAIRWISE_THRESHOLD });
+  });
+
+  it('rejects params the algorithm does not expose or of the wrong type', async function () {
+    expect(() => resolveMatchingAlgorithm({ name: 'linear', params: { pairwiseThreshold: 5 } })).to.throw(
+      'linear@1 does not accept the param: pairwiseThreshold'
+    );
+    expect(() =>
+      resolveMatchingAlgorithm({ name: 'linear', params: { matchCap: '0.1' as unknown as number } })
+    ).to.throw('Invalid value for matchCap');
+  });
+
+  it('rejects unknown algorithms and versions', async function () {
+    expect(() => getAlgorithm('quadratic')).to.throw('Unknown matching algorithm: quadratic');
+    expect(() => resolveMatchingAlgorithm('linear@9')).to.throw('Unknown version of linear: 9');
+  });
+
+  it('never replaces a registered version', async function () {
+    expect(() =>
+      registerAlgorithm({ name: 'registry-test', version: 1, calcAlgo: linear, defaults: {}, params: [] })
+    ).to.throw('registry-test@1 is already registered');
+    expect(resolveMatchingAlgorithm('registry-test@1').params).to.deep.equal({ matchCap: 0.2 });
+  });
+});
@@ -0,0 +1,98 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { GrantRoundContributions } from '@dgrants/types';
+
+// --- Our imports ---
+import { CLR } from '../src/internal/clr';
+import { handle as linear } from '../src/internal/calc/linear';
+import { handle as pairwise } from '../src/internal/calc/pairwise';
+import { formatReport, reportToCsv } from '../src/internal/report';
+import { CalcAlgo, CLRArgs, DistributionReport, GrantsDistribution, InitArgs } from '../src/types';
+import { grantRoundContributions } from './utils';
+
+describe('report', function () {
+  const calculate = (calcAlgo: CalcAlgo, contributions: GrantRoundContributions, options: Partial<InitArgs> = {}) =>
+    new CLR({ calcAlgo, defaultTrustScore: 1, includeReport: true, ...options }).calculate(contributions);
+  const match = (distribution: GrantsDistribution, grantId: number) =>
+    distribution.distribution.find((grantMatch) => grantMatch.grantId === grantId)?.match || 0;
+
+  [
+    { name: 'linear', calcAlgo: linear, options: {} },
+    { name: 'linear with a matchCap', calcAlgo: linear, options: { matchCap: 0.4 } },
+    { name: 'pairwise', calcAlgo: pairwise, options: {} },
+  ].forEach(({ name, calcAlgo, options }) => {
+    describe(name, () => {
+      it('reports the distributions match for every grant', async function () {
+        const distribution = await calculate(calcAlgo, grantRoundContributions(), options);
+        const report = distribution.report as DistributionReport;
+
+        expect(report.grants.map((grant) => grant.grantId).sort()).to.deep.equal([1, 2, 3]);
+        report.grants.forEach((grant) => expect(grant.match).to.equal(match(distribution, grant.grantId)));
+        expect(report.hasSaturated).to.equal(distribution.hasSaturated);
+        expect(report.saturationFactor).to.be.closeTo(
+          Math.min(1, grantRoundContributions().totalPot / report.totalPreNormalizationMatch),
+          1e-12
+        );
+      });
+
+      it('measures each contributions marginal match against a recalculation without it', async function () {
+        const report = (await calculate(calcAlgo, grantRoundContributions(), options)).report as DistributionReport;
+
+        for (const grant of report.grants) {
+          for (const contribution of grant.contributions) {
+            const contributions = grantRoundContributions().contributions.filter(
+              (other) => other.grantId !== grant.grantId || other.address !== contribution.address
+            );
+            const without = await calculate(calcAlgo, { ...grantRoundContributions(), contributions }, options);
+
+            expect(contribution.marginalMatch).to.be.closeTo(grant.match - match(without, grant.grantId), 1e-6);
+          }
+        }
+      });
+    });
+  });
+
+  it('requires an algorithm which can explain itself', async function () {
+    const recompute: CalcAlgo = (clrArgs: CLRArgs) => linear(clrArgs);
+
+    try {
+      await calculate(recompute, grantRoundContributions());
+      expect.fail('the report should not be built');
+    } catch (err) {
+      expect((err as Error).message).to.contain('does not support reports');
+    }
+  });
+
+  describe('formatReport', () => {
+    const getReport = async () => (await calculate(linear, grantRoundContributions())).report as DistributionReport;
+
+    it('exports a row per grant or per contribution as csv', async function () {
+      const report = await getReport();
+      const grantRows = formatReport(report, 'csv').trim().split('\n');
+      const contributionRows = reportToCsv(report, 'contributions').trim().split('\n');
+
+      expect(grantRows[0]).to.match(/^grantId,address,contributors,/);
+      expect(grantRows).to.have.length(1 + 3);
+      expect(contributionRows).to.have.length(1 + grantRoundContributions().contributions.length);
+    });
+
+    it('round-trips through json', async function () {
+      const report = await getReport();
+
+      expect(JSON.parse(formatReport(report))).to.deep.equal(JSON.parse(JSON.stringify(report)));
+    });
+
+    it('exports a table for every grant as markdown', async function () {
+      const markdown = formatReport(await getReport(), 'markdown');
+
+      expect(markdown).to.contain(`# Distribution report: ${grantRoundContributions().grantRound}`);
+      [1, 2, 3].forEach((grantId) => expect(markdown).to.contain(`### Grant ${grantId}`));
+    });
+
+    it('rejects an unknown format', async function () {
+      const report = await getReport();
+
+      expect(() => formatReport(report, 'xml' as never)).to.throw('Unknown report format');
+    });
+  });
+});
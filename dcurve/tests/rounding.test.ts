@@ -0,0 +1,83 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { BigNumber } from 'ethers';
+import { getAddress } from 'ethers/lib/utils';
+
+// --- Our imports ---
+import { toUnits } from '../src/internal/fixed';
+import { getRoundingOptions, roundPayouts } from '../src/internal/rounding';
+import { address, payout, sumUnits } from './utils';
+
+describe('roundPayouts', function () {
+  it('never pays out more than the pot', async function () {
+    // the float matches sum to slightly more than the pot
+    const totalPotUnits = toUnits(1, 6);
+    const payouts = [payout(1, 0.1), payout(2, 0.2), payout(3, 0.7000001)];
+    const rounded = roundPayouts(payouts, totalPotUnits, 6);
+
+    expect(sumUnits(rounded.payoutDistribution).lte(totalPotUnits)).to.be.true;
+    expect(rounded.totalUnits).to.equal(sumUnits(rounded.payoutDistribution).toString());
+    expect(BigNumber.from(rounded.unallocatedUnits).gte(0)).to.be.true;
+  });
+
+  it('hands the units lost to rounding to the largest remainders', async function () {
+    const totalPotUnits = toUnits(0.000004, 6);
+    const payouts = [payout(1, 0.0000015), payout(2, 0.0000015), payout(3, 0.000001)];
+    const rounded = roundPayouts(payouts, totalPotUnits, 6);
+
+    // both halves are equal, so the tie goes to the lowest address
+    expect(rounded.totalUnits).to.equal('4');
+    expect(rounded.payoutDistribution.map((payoutMatch) => payoutMatch.matchUnits)).to.deep.equal(['2', '1', '1']);
+  });
+
+  it('handles values smaller than the tokens smallest unit', async function () {
+    const payouts = [payout(1, 1e-7), payout(2, 0.12345678901), payout(3, 5)];
+    const rounded = roundPayouts(payouts, toUnits(6, 6), 6);
+
+    // the tiny payout is dropped rather than throwing or producing an unclaimable leaf
+    expect(rounded.payoutDistribution.map((payoutMatch) => payoutMatch.address)).to.deep.equal([
+      address(2),
+      address(3),
+    ]);
+    expect(rounded.payoutDistribution.every((payoutMatch) => BigNumber.from(payoutMatch.matchUnits).gt(0))).to.be.true;
+  });
+
+  it('sends dust to the remainderAddress', async function () {
+    const remainderAddress = address(50);
+    const payouts = [payout(1, 10), payout(2, 0.004), payout(3, 0.003)];
+    const rounded = roundPayouts(payouts, toUnits(10.007, 6), 6, { dustThreshold: 0.01, remainderAddress });
+
+    const remainder = rounded.payoutDistribution.find((payoutMatch) => payoutMatch.address === remainderAddress);
+    expect(remainder?.matchUnits).to.equal('7000');
+    expect(rounded.payoutDistribution.map((payoutMatch) => payoutMatch.address)).to.deep.equal([
+      address(1),
+      remainderAddress,
+    ]);
+    expect(rounded.totalUnits).to.equal(toUnits(10.007, 6).toString());
+    expect(rounded.adjustments.filter((adjustment) => adjustment.reason === 'dust')).to.have.lengthOf(2);
+  });
+
+  it('pays the whole pot when there is a remainderAddress', async function () {
+    // rounding down leaves a unit, and the round is not saturated
+    const remainderAddress = address(50);
+    const payouts = [payout(1, 1 / 3), payout(2, 1 / 3), payout(3, 1 / 3)];
+    const rounded = roundPayouts(payouts, toUnits(2, 6), 6, { remainderAddress });
+
+    const remainder = rounded.payoutDistribution.find((payoutMatch) => payoutMatch.address === remainderAddress);
+    expect(remainder?.matchUnits).to.equal('1000001');
+    expect(rounded.totalUnits).to.equal(toUnits(2, 6).toString());
+    expect(rounded.unallocatedUnits).to.equal('0');
+  });
+
+  it('reads the rounding options back from the adjustments', async function () {
+    const remainderAddress = getAddress(address(50));
+    const payouts = [payout(1, 10), payout(2, 0.004), payout(3, 0.003)];
+    const rounded = roundPayouts(payouts, toUnits(10.007, 6), 6, { dustThreshold: 0.01, remainderAddress });
+
+    // the smallest threshold which drops the same payees
+    const options = getRoundingOptions({ payoutAdjustments: rounded.adjustments }, 6);
+    expect(options).to.deep.equal({ dustThreshold: 0.004001, remainderAddress });
+    expect(roundPayouts(payouts, toUnits(10.007, 6), 6, options)).to.deep.equal(rounded);
+    expect(getRoundingOptions({}, 6)).to.deep.equal({ dustThreshold: undefined, remainderAddress: undefined });
+  });
+});
@@ -0,0 +1,75 @@
+// --- External imports ---
+import { expect } from 'chai';
+
+// --- Our imports ---
+import {
+  capWeighting,
+  ConstantTrustScoreProvider,
+  DEFAULT_TRUST_SCORE,
+  getTrustBonusScores,
+  getTrustWeights,
+  StaticTrustScoreProvider,
+} from '../src/internal/trust';
+import { CLRArgs } from '../src/types';
+import { address, grantRoundContributions } from './utils';
+
+describe('trust', function () {
+  const clrArgs = (args: Partial<CLRArgs>) => <CLRArgs>{ contributions: grantRoundContributions(), ...args };
+
+  describe('getTrustWeights', () => {
+    it('only uses the scores it is given', async function () {
+      const getTrustWeight = getTrustWeights(clrArgs({ trustBonusScores: [{ address: address(11), score: 0.8 }] }));
+
+      expect(getTrustWeight(address(11))).to.equal(0.8);
+      expect(getTrustWeight(address(12))).to.equal(DEFAULT_TRUST_SCORE);
+    });
+
+    it('matches addresses exactly', async function () {
+      const checksummed = '0x00000000000000000000000000000000000000aB';
+      const getTrustWeight = getTrustWeights(clrArgs({ trustBonusScores: [{ address: checksummed, score: 1 }] }));
+
+      expect(getTrustWeight(checksummed)).to.equal(1);
+      expect(getTrustWeight(checksummed.toLowerCase())).to.equal(DEFAULT_TRUST_SCORE);
+    });
+
+    it('uses the first score given for an address', async function () {
+      const getTrustWeight = getTrustWeights(
+        clrArgs({
+          trustBonusScores: [
+            { address: address(11), score: 0.9 },
+            { address: address(11), score: 0.1 },
+          ],
+        })
+      );
+
+      expect(getTrustWeight(address(11))).to.equal(0.9);
+    });
+
+    it('applies the default score and the weighting', async function () {
+      const getTrustWeight = getTrustWeights(clrArgs({ defaultTrustScore: 2, trustWeighting: capWeighting(1.5) }));
+
+      expect(getTrustWeight(address(11))).to.equal(1.5);
+    });
+  });
+
+  describe('getTrustBonusScores', () => {
+    it('resolves the scores and the metaPtr from the provider', async function () {
+      const scores = new StaticTrustScoreProvider(`address,score\n${address(11)},1\n${address(12)},0.2`);
+      const provider = { getScores: (addresses: string[]) => scores.getScores(addresses), metaPtr: 'cid' };
+
+      const { trustBonusScores, trustBonusMetaPtr } = await getTrustBonusScores(provider, [address(12)]);
+
+      expect(trustBonusScores).to.deep.equal([{ address: address(12), score: 0.2 }]);
+      expect(trustBonusMetaPtr).to.equal('cid');
+    });
+
+    it('leaves the metaPtr unset for providers without one', async function () {
+      const { trustBonusScores, trustBonusMetaPtr } = await getTrustBonusScores(new ConstantTrustScoreProvider(1), [
+        address(11),
+      ]);
+
+      expect(trustBonusScores).to.deep.equal([{ address: address(11), score: 1 }]);
+      expect(trustBonusMetaPtr).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @notice This file contains test utilities and helper methods
+ */
+import { BigNumber } from 'ethers';
+import { GrantRoundContributions } from '@dgrants/types';
+import { PayoutMatch, TrustBonusScore } from '../src/types';
+
+// --- Helpers ---
+// a distinct (lowercase) address for each n
+export const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}`;
+
+// a payee due `match` for grant n
+export const payout = (n: number, match: number): PayoutMatch => ({ address: address(n), grantIds: [n], match });
+
+// sum of the payees matchUnits
+export const sumUnits = (payouts: PayoutMatch[]) =>
+  payouts.reduce((total, payoutMatch) => total.add(payoutMatch.matchUnits || 0), BigNumber.from(0));
+
+// a small round with overlapping contributors, fractional amounts and a pot which saturates
+export const grantRoundContributions = (): GrantRoundContributions => ({
+  grantRound: address(100),
+  totalPot: 1234.56789,
+  totalPotUnits: '1234567890000000000000',
+  matchingTokenDecimals: 18,
+  contributions: [
+    { grantId: 1, grantAddress: address(1), address: address(11), tokenIn: address(99), amount: 10.1 },
+    { grantId: 1, grantAddress: address(1), address: address(12), tokenIn: address(99), amount: 0.3 },
+    { grantId: 1, grantAddress: address(1), address: address(13), tokenIn: address(99), amount: 1e-7 },
+    { grantId: 2, grantAddress: address(2), address: address(11), tokenIn: address(99), amount: 250 },
+    { grantId: 2, grantAddress: address(2), address: address(14), tokenIn: address(99), amount: 3.333333333333 },
+    { grantId: 3, grantAddress: address(3), address: address(12), tokenIn: address(99), amount: 42 },
+    { grantId: 3, grantAddress: address(3), address: address(15), tokenIn: address(99), amount: 0.000001 },
+  ],
+});
+
+// a seeded random number generator (mulberry32) so that "random" rounds are the same on every run
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// a round of `count` contributions from 8 contributors to 5 grants, with amounts spread over several magnitudes
+export const randomRound = (random: () => number, count = 40): GrantRoundContributions => ({
+  grantRound: address(100),
+  totalPot: Math.round(random() * 5000),
+  matchingTokenDecimals: 18,
+  contributions: Array.from({ length: count }, () => {
+    const grantId = 1 + Math.floor(random() * 5);
+    return {
+      grantId,
+      grantAddress: address(grantId),
+      address: address(11 + Math.floor(random() * 8)),
+      tokenIn: address(99),
+      amount: Number((10 ** (random() * 4 - 1)).toFixed(6)),
+    };
+  }),
+});
+
+// a score for every other contributor in `randomRound`
+export const randomScores = (random: () => number): TrustBonusScore[] =>
+  Array.from({ length: 4 }, (_, n) => ({ address: address(11 + n * 2), score: Number((random() * 1.5).toFixed(2)) }));
@@ -0,0 +1,118 @@
+// --- External imports ---
+import { expect } from 'chai';
+import { getAddress } from 'ethers/lib/utils';
+
+// --- Our imports ---
+import { createBundle } from '../src/internal/bundle';
+import { CLR } from '../src/internal/clr';
+import { handle as linear } from '../src/internal/calc/linear';
+import { getRoundingOptions } from '../src/internal/rounding';
+import { FinalizationBundle, GrantsDistribution, RoundingOptions, TrustBonusScore } from '../src/types';
+import { address, grantRoundContributions } from './utils';
+
+describe('verify', function () {
+  const trustBonusScores: TrustBonusScore[] = [
+    { address: address(11), score: 1 },
+    { address: address(12), score: 0.8 },
+    { address: address(14), score: 1.2 },
+  ];
+  const getCLR = (scores?: TrustBonusScore[]) =>
+    new CLR({ calcAlgo: linear, includePayouts: true, trustBonusScores: scores });
+  const publish = (contributions = grantRoundContributions()) => getCLR(trustBonusScores).calculate(contributions);
+
+  it('verifies a distribution recalculated from the published scores', async function () {
+    const published = await publish();
+    const result = await getCLR().verify(grantRoundContributions(), '', published.hash || '', {
+      distribution: published,
+      trustBonusScores: trustBonusScores,
+      contributions: grantRoundContributions().contributions,
+    });
+
+    expect(result.verified).to.be.true;
+    expect(result.calculatedHash).to.equal(published.hash);
+    expect(result.grants).to.be.empty;
+    expect(result.payees).to.be.empty;
+    expect(result.trustScores).to.be.empty;
+    expect(result.contributions).to.deep.equal({ expectedOnly: [], calculatedOnly: [] });
+  });
+
+  it('traces a mismatched root back to the contribution, grants and payees responsible', async function () {
+    // the published distribution counted a larger contribution to grant 3
+    const tampered = grantRoundContributions();
+    tampered.contributions[5] = { ...tampered.contributions[5], amount: 420 };
+    const published = await publish(tampered);
+
+    const result = await getCLR(trustBonusScores).verify(grantRoundContributions(), '', published.hash || '', {
+      distribution: published,
+      trustBonusScores: trustBonusScores,
+      contributions: tampered.contributions,
+    });
+
+    expect(result.verified).to.be.false;
+    expect(result.grants.map((grant) => grant.grantId)).to.include(3);
+    expect(result.payees.map((payee) => payee.address.toLowerCase())).to.include(address(3));
+    expect(result.contributions.expectedOnly.map(({ amount }) => amount)).to.deep.equal([420]);
+    expect(result.contributions.calculatedOnly.map(({ amount }) => amount)).to.deep.equal([42]);
+  });
+
+  it('audits the published scores against our own', async function () {
+    const published = await publish();
+    // a score for an address which never contributed can't affect the distribution
+    const scores = [
+      ...trustBonusScores.slice(1),
+      { address: address(11), score: 0.2 },
+      { address: address(50), score: 1 },
+    ];
+
+    const result = await getCLR(scores).verify(grantRoundContributions(), '', published.hash || '', {
+      trustBonusScores: trustBonusScores,
+    });
+
+    expect(result.verified).to.be.false;
+    expect(result.trustScores).to.deep.equal([{ address: address(11), expected: 1, calculated: 0.2 }]);
+  });
+
+  describe('a payout published with a remainderAddress and dustThreshold', function () {
+    // grant 3's payout is below the threshold and the round is not saturated, so the remainderAddress is paid
+    const rounding = { dustThreshold: 0.01, remainderAddress: getAddress(address(77)) };
+    // recalculates the way the app does, with the rounding read back from what was published
+    const verifyPayout = (published: GrantsDistribution, options: RoundingOptions, merkleRoot: string) =>
+      new CLR({ calcAlgo: linear, includePayouts: true, trustBonusScores, ...options }).verify(
+        grantRoundContributions(),
+        '',
+        merkleRoot,
+        { distribution: published, trustBonusScores: trustBonusScores }
+      );
+
+    it('verifies the bundle published by the payout script', async function () {
+      const bundle: FinalizationBundle = JSON.parse(
+        JSON.stringify(
+          await createBundle({ grantRoundContributions: grantRoundContributions(), trustBonusScores, ...rounding })
+        )
+      );
+
+      const result = await verifyPayout(bundle.distribution, bundle.rounding, bundle.merkle.merkleRoot);
+
+      expect(result.verified).to.be.true;
+      expect(result.calculatedHash).to.equal(bundle.merkle.merkleRoot);
+    });
+
+    it('reads the rounding of a bare distribution back from its payoutAdjustments', async function () {
+      const published = await new CLR({
+        calcAlgo: linear,
+        includePayouts: true,
+        trustBonusScores,
+        ...rounding,
+      }).calculate(grantRoundContributions());
+      const reasons = (published.payoutAdjustments || []).map((adjustment) => adjustment.reason);
+      expect(reasons).to.include.members(['dust', 'remainder']);
+
+      const options = getRoundingOptions(published, grantRoundContributions().matchingTokenDecimals);
+      expect(options.remainderAddress).to.equal(rounding.remainderAddress);
+      expect((await verifyPayout(published, options, published.hash)).verified).to.be.true;
+
+      // without the rounding the remainderAddress is missing from the recalculated tree
+      expect((await verifyPayout(published, {}, published.hash)).verified).to.be.false;
+    });
+  });
+});
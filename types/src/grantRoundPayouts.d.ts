@@ -1,7 +1,63 @@
+import { BigNumberish } from 'ethers';
+
 // Claim struct from MerkleGrantRoundPayout
 export type Claim = {
   index: number;
   payee: string;
-  amount: number;
+  amount: BigNumberish;
   merkleProof: string[];
 };
+
+/**
+ * A claim made against a MerkleGrantRoundPayout (from its `Claimed` events)
+ *
+ * @type PayoutClaim
+ * @field {index} index of the claim in the merkle tree
+ * @field {payee} address the funds were sent to
+ * @field {amount} amount claimed (in the matching tokens smallest unit)
+ * @field {txHash} transaction which made the claim
+ * @field {blockNumber} block the claim was made in
+ */
+export type PayoutClaim = {
+  index: number;
+  payee: string;
+  amount: string;
+  txHash: string;
+  blockNumber: number;
+};
+
+/**
+ * A payee in a rounds payout distribution
+ *
+ * @type PayeeStatus
+ * @field {index} index of the payees claim in the merkle tree
+ * @field {amount} amount owed (human readable number)
+ * @field {claimed} true once the payee (or anyone on their behalf) has claimed
+ */
+export type PayeeStatus = {
+  index: number;
+  amount: number;
+  claimed: boolean;
+};
+
+/**
+ * The payout of a rounds matching funds and how much of it has been claimed
+ *
+ * @type GrantRoundPayout
+ * @field {grantRound} grant round address
+ * @field {payoutAddress} the MerkleGrantRoundPayout contract holding the matching funds
+ * @field {distributionMetaPtr} the published distribution the payout was made from
+ * @field {claims} every claim made so far (by index)
+ * @field {payees} every payee in the distribution (by payee address)
+ * @field {totalClaimed} total claimed (human readable number)
+ * @field {totalUnclaimed} total waiting to be claimed (human readable number)
+ */
+export type GrantRoundPayout = {
+  grantRound: string;
+  payoutAddress: string;
+  distributionMetaPtr: string;
+  claims: Record<number, PayoutClaim>;
+  payees: Record<string, PayeeStatus>;
+  totalClaimed: number;
+  totalUnclaimed: number;
+};
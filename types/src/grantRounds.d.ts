@@ -49,6 +49,23 @@ export type GrantRound = {
 };
 export type GrantRounds = Array<GrantRound>;
 
+/**
+ * Matching algorithm selected by a round, either a registered name (optionally pinned as `name@version`)
+ * or the name with a pinned version and params
+ *
+ * @type MatchingAlgorithm
+ * @field {name} registered algorithm name (linear|pairwise|capped-linear)
+ * @field {version} *optional* version of the algorithms params (defaults to the latest)
+ * @field {params} *optional* overrides for the algorithms default params (eg. matchCap)
+ */
+export type MatchingAlgorithm =
+  | string
+  | {
+      name: string;
+      version?: number;
+      params?: Record<string, number | boolean>;
+    };
+
 /**
  * Metadata resolve from a grant round's metadata pointer URL
  *
@@ -56,20 +73,24 @@ export type GrantRounds = Array<GrantRound>;
  * @field {name} The grantRounds name
  * @field {description} The grantRounds description
  * @field {grants} An array of grants in this grantRound
- * @field {matchingAlgorithm} The matching algo to use for calculations (linear)
+ * @field {matchingAlgorithm} The matching algo (and its params) to use for calculations (linear)
  * @field {logoURI} The ipfs uri to pull the grantRounds logo from
  * --- optional ---
  * @field {properties.websiteURI} The grantRounds website
  * @field {properties.governanceURI} The grantRounds governanceURI
  * @field {properties.twitterURI} The grantRounds twitterURI
  * @field {properties.sponsorsURI} The grantRounds sponsorsURI
+ * @field {predictionAxis} Amounts (in the donationToken) to predict each grants match at (suited to the rounds donation scale)
+ * @field {payout.address} The MerkleGrantRoundPayout contract paying out the rounds matching funds
+ * @field {payout.distributionMetaPtr} The ipfs uri of the published distribution holding the payees claims
+ * (a GrantsDistribution, finalization bundle or MerkleDistributorInfo)
  */
 
 export type GrantRoundMetadata = {
   name: string;
   description: string;
   grants: BigNumberish[];
-  matchingAlgorithm: string;
+  matchingAlgorithm: MatchingAlgorithm;
   logoURI: string;
   properties?: {
     websiteURI?: string;
@@ -77,6 +98,11 @@ export type GrantRoundMetadata = {
     twitterURI?: string;
     sponsorsURI?: string[];
   };
+  predictionAxis?: number[];
+  payout?: {
+    address: string;
+    distributionMetaPtr: string;
+  };
 };
 export type GrantRoundMetadataStatus = 'resolved' | 'pending' | 'error';
 export type GrantRoundMetadataResolution = Partial<GrantRoundMetadata> & { status: GrantRoundMetadataStatus };
@@ -89,12 +115,26 @@ export type GrantRoundMetadataResolution = Partial<GrantRoundMetadata> & { statu
  * @field {totalPot} total pot amount in the round
  * @field {matchingTokenDecimals} the number of decimals used by the rounds matching currency
  * @field {[contributions]} contributions in that round
+ * --- optional ---
+ * @field {totalPotUnits} exact total pot in the matching tokens smallest unit (as a decimal string)
+ * @field {matchingToken} address of the rounds matching token
+ * @field {fromBlock} first block the contributions were read from
+ * @field {toBlock} last block the contributions were read from
+ * @field {ignore} grants and contributor addresses which were left out of the contributions
  */
 export type GrantRoundContributions = {
   grantRound: string;
   totalPot: number;
   matchingTokenDecimals: number;
   contributions: Contribution[];
+  totalPotUnits?: string;
+  matchingToken?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  ignore?: {
+    contributionAddress: string[];
+    grants: number[];
+  };
 };
 
 /**
@@ -59,6 +59,7 @@ export type GrantMetadataResolution = Partial<GrantMetadata> & {
  * @field {donationToken} rounds donationToken info
  * @field {txHash} contributions transaction hash
  * @field {blockNumber} blockNumber that mined the transaction
+ * @field {logIndex} position of the GrantDonation event in the block (`${txHash}-${logIndex}` identifies the contribution)
  */
 export type Contribution = {
   grantId: number;
@@ -71,6 +72,7 @@ export type Contribution = {
   donationToken?: TokenInfo;
   txHash?: string;
   blockNumber?: number;
+  logIndex?: number;
 };
 
 /**
@@ -116,11 +118,13 @@ export type CLRPrediction = {
  * @type GrantPrediction
  * @field {grantId} grant identifier
  * @field {grantRound} grant round address
+ * @field {axis} *optional* the amounts the predictions were made at
  * @field {[GrantPrediction]} list of GrantPrediction
  */
 export type GrantPrediction = {
   grantId: number;
   grantRound: string;
+  axis?: number[];
   predictions: CLRPrediction[];
 };
 
@@ -2,6 +2,9 @@ import { create } from 'ipfs-http-client';
 
 const ipfsEndpoint = 'https://ipfs-api.dev.fleek.cool';
 
+// gateway used to resolve CIDs
+export const retrievalEndpoint = 'https://ipfs-dev.fleek.co/ipfs';
+
 export const createIpfs = (fleekApiKey: string) => {
   return create({
     url: ipfsEndpoint,
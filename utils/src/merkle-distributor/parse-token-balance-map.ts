@@ -0,0 +1,81 @@
+/**
+ * Builds a TokenBalanceTree from the balances owed to each account in each token, following parse-balance-map.ts
+ *
+ * Each (account, token) pair is a single leaf, leaves are ordered by account and then token.
+ */
+import { BigNumber, utils } from 'ethers';
+import { TokenBalanceTree } from './token-balance-tree';
+
+const { isAddress, getAddress } = utils;
+
+// Everything needed to recreate the tree and claim from it (the token equivalent of MerkleDistributorInfo)
+export interface TokenMerkleDistributorInfo {
+  merkleRoot: string;
+  tokenTotals: {
+    [token: string]: string;
+  };
+  claims: {
+    [account: string]: {
+      [token: string]: {
+        index: number;
+        amount: string;
+        proof: string[];
+      };
+    };
+  };
+}
+
+export type TokenBalanceFormat = { address: string; token: string; earnings: string };
+
+export function parseTokenBalanceMap(balances: TokenBalanceFormat[]): TokenMerkleDistributorInfo {
+  const dataByKey = balances.reduce<{ [key: string]: { account: string; token: string; amount: BigNumber } }>(
+    (memo, { address: account, token, earnings }) => {
+      if (!isAddress(account)) throw new Error(`Found invalid address: ${account}`);
+      if (!isAddress(token)) throw new Error(`Found invalid token: ${token}`);
+      const parsedAccount = getAddress(account);
+      const parsedToken = getAddress(token);
+      const key = `${parsedAccount}-${parsedToken}`;
+      if (memo[key]) throw new Error(`Duplicate balance: ${parsedAccount} in ${parsedToken}`);
+      const parsedNum = BigNumber.from(earnings);
+      if (parsedNum.lte(0)) throw new Error(`Invalid amount for account: ${account} in ${token}`);
+
+      memo[key] = { account: parsedAccount, token: parsedToken, amount: parsedNum };
+      return memo;
+    },
+    {}
+  );
+
+  const sortedBalances = Object.keys(dataByKey)
+    .sort()
+    .map((key) => dataByKey[key]);
+
+  // construct a tree
+  const tree = new TokenBalanceTree(sortedBalances);
+
+  // generate claims
+  const claims = sortedBalances.reduce<TokenMerkleDistributorInfo['claims']>(
+    (memo, { account, token, amount }, index) => {
+      memo[account] = {
+        ...(memo[account] || {}),
+        [token]: {
+          index,
+          amount: amount.toHexString(),
+          proof: tree.getProof(index, account, token, amount),
+        },
+      };
+      return memo;
+    },
+    {}
+  );
+
+  const tokenTotals = sortedBalances.reduce<{ [token: string]: BigNumber }>((memo, { token, amount }) => {
+    memo[token] = (memo[token] || BigNumber.from(0)).add(amount);
+    return memo;
+  }, {});
+
+  return {
+    merkleRoot: tree.getHexRoot(),
+    tokenTotals: Object.fromEntries(Object.entries(tokenTotals).map(([token, total]) => [token, total.toHexString()])),
+    claims,
+  };
+}
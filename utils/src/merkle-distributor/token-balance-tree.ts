@@ -0,0 +1,47 @@
+// (index, account, token, amount) leaves for payouts made in several tokens from the same tree, see balance-tree.ts
+import MerkleTree from './merkle-tree';
+import { BigNumber, utils } from 'ethers';
+
+export class TokenBalanceTree {
+  private readonly tree: MerkleTree;
+  constructor(balances: { account: string; token: string; amount: BigNumber }[]) {
+    this.tree = new MerkleTree(
+      balances.map(({ account, token, amount }, index) => {
+        return TokenBalanceTree.toNode(index, account, token, amount);
+      })
+    );
+  }
+
+  public static verifyProof(
+    index: number | BigNumber,
+    account: string,
+    token: string,
+    amount: BigNumber,
+    proof: Buffer[],
+    root: Buffer
+  ): boolean {
+    let pair = TokenBalanceTree.toNode(index, account, token, amount);
+    for (const item of proof) {
+      pair = MerkleTree.combinedHash(pair, item);
+    }
+
+    return pair.equals(root);
+  }
+
+  // keccak256(abi.encodePacked(index, account, token, amount))
+  public static toNode(index: number | BigNumber, account: string, token: string, amount: BigNumber): Buffer {
+    return Buffer.from(
+      utils.solidityKeccak256(['uint256', 'address', 'address', 'uint256'], [index, account, token, amount]).substr(2),
+      'hex'
+    );
+  }
+
+  public getHexRoot(): string {
+    return this.tree.getHexRoot();
+  }
+
+  // returns the hex bytes32 values of the proof
+  public getProof(index: number | BigNumber, account: string, token: string, amount: BigNumber): string[] {
+    return this.tree.getHexProof(TokenBalanceTree.toNode(index, account, token, amount));
+  }
+}
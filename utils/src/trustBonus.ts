@@ -1,6 +1,6 @@
-import { ipfs } from '@dgrants/app/src/utils/data/ipfs';
 import { TrustBonusScore } from '@dgrants/dcurve/src/types';
 import { Status } from '../types';
+import { createIpfs } from './ipfs';
 
 type TrustBonusScoreAPI = {
   data: TrustBonusScore[];
@@ -32,10 +32,12 @@ export const fetchTrustBonusScore = async (addresses: string[]): Promise<TrustBo
 
   try {
     const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
     const trustBonusScores = await response.json();
     result.data = trustBonusScores;
     return result;
   } catch (err) {
+    result.status.ok = false;
     result.status.message = `fetchTrustBonusScore: ${err}`;
     return result;
   }
@@ -45,12 +47,12 @@ export const fetchTrustBonusScore = async (addresses: string[]): Promise<TrustBo
  * @notice util function which upload trust bonus metadata to IPFS
  * and return a CID which can be used to verify the distribution.
  *
- * @param obj
- * @param obj.address Contributors Address
- * @param obj.trustBonusScore Description of grant
+ * @param trustBonusScores scores to publish
+ * @param fleekApiKey key for the Fleek IPFS API
  * @returns CID
  */
-export const uploadTrustBonusScores = async (trustBonusScores: TrustBonusScore[]) => {
+export const uploadTrustBonusScores = async (trustBonusScores: TrustBonusScore[], fleekApiKey: string) => {
+  const ipfs = createIpfs(fleekApiKey);
   const res = await ipfs.add(JSON.stringify(trustBonusScores));
   return res.cid;
 };